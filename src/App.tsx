@@ -1,16 +1,44 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
 import { ProcessingStatus } from './components/ProcessingStatus';
 import { ExtractedContent } from './components/ExtractedContent';
-import { UploadedFile, ExtractedDocument, ProcessingStatus as ProcessingStatusType } from './types';
-import { DocumentExtractor } from './utils/textExtraction';
+import { CorpusExport } from './components/CorpusExport';
+import { DocumentLibrary } from './components/DocumentLibrary';
+import { PreprocessingProfilePicker } from './components/PreprocessingProfilePicker';
+import { UploadedFile, ExtractedDocument, PreprocessingSettings, ProcessingStatus as ProcessingStatusType } from './types';
+import { DocumentExtractor, ExtractionOptions } from './utils/textExtraction';
+import { ExtractionWorkerPool } from './utils/extractionWorkerPool';
+import { DocumentStore } from './utils/documentStore';
+import { ARCHIVE_FORMAT } from './utils/fileTypeDetection';
+import { isArchiveFile } from './utils/fileValidation';
+import { DEFAULT_PREPROCESSING } from './utils/textPreprocessing';
+
+interface ProcessingJob {
+  // Id of the upload the job belongs to
+  sourceId: string;
+  controller: AbortController;
+}
+
+type RetryJob = { sourceId: string } & (
+  | { file: File; options: ExtractionOptions }
+  // Archives are unpacked again as a whole
+  | { upload: UploadedFile }
+);
+
+// Abort reason for jobs whose upload was removed or changed; they report nothing more
+const SUPERSEDED = 'superseded';
 
 function App() {
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Upload list as of the last change, to work out what was added or removed
+  const uploadedFilesRef = useRef<UploadedFile[]>([]);
   const [processingStatuses, setProcessingStatuses] = useState<ProcessingStatusType[]>([]);
   const [extractedDocuments, setExtractedDocuments] = useState<ExtractedDocument[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+  // Bumped after every library write so the library panel reloads
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  // Preprocessing for new uploads, and for open documents on request
+  const [preprocessing, setPreprocessing] = useState<PreprocessingSettings>(DEFAULT_PREPROCESSING);
+  const [isApplyingPreprocessing, setIsApplyingPreprocessing] = useState(false);
 
   const updateProcessingStatus = useCallback((status: ProcessingStatusType) => {
     setProcessingStatuses(prev => {
@@ -22,55 +50,249 @@ function App() {
     });
   }, []);
 
-  const processDocuments = useCallback(async (files: UploadedFile[]) => {
-    if (files.length === 0) {
-      setProcessingStatuses([]);
-      setExtractedDocuments([]);
+  // Documents and archives in progress, keyed by status id
+  const runningJobs = useRef(new Map<string, ProcessingJob>());
+  // What to run again for each failed or cancelled status
+  const retryJobs = useRef(new Map<string, RetryJob>());
+  // Reprocessing in progress, keyed by document id
+  const reprocessJobs = useRef(new Map<string, AbortController>());
+
+  /**
+   * Register a job under its status id, replacing (and stopping) any earlier one
+   */
+  const startJob = useCallback((statusId: string, sourceId: string): AbortController => {
+    runningJobs.current.get(statusId)?.controller.abort(SUPERSEDED);
+    const controller = new AbortController();
+    runningJobs.current.set(statusId, { sourceId, controller });
+    retryJobs.current.delete(statusId);
+    return controller;
+  }, []);
+
+  const finishJob = useCallback((statusId: string, controller: AbortController) => {
+    if (runningJobs.current.get(statusId)?.controller === controller) {
+      runningJobs.current.delete(statusId);
+    }
+  }, []);
+
+  const saveToLibrary = useCallback(async (doc: ExtractedDocument, file: File) => {
+    if (!DocumentStore.isSupported()) return;
+    try {
+      await DocumentStore.getInstance().save(doc, file);
+      setLibraryVersion(version => version + 1);
+    } catch (error) {
+      // Usually the storage quota; the document stays usable for this session
+      console.warn(`Failed to save ${doc.fileName} to the library:`, error);
+    }
+  }, []);
+
+  const extractDocument = useCallback(async (file: File, sourceId: string, options: ExtractionOptions = {}) => {
+    // Different files can share a name, so jobs are keyed by the upload's content hash
+    const statusId = options.archivePath ? `${sourceId}/${options.archivePath}` : sourceId;
+    const label = options.archivePath ?? file.name;
+    const controller = startJob(statusId, sourceId);
+    const superseded = () => controller.signal.reason === SUPERSEDED;
+    const report = (status: ProcessingStatusType) => {
+      if (!superseded()) updateProcessingStatus({ ...status, sourceId, label });
+    };
+
+    try {
+      const doc = await DocumentExtractor.getInstance().extractText(
+        file,
+        report,
+        // The library keeps one copy per content, so a re-upload replaces the earlier one
+        { ...options, statusId, documentId: statusId, signal: controller.signal }
+      );
+      if (!superseded()) {
+        const sourcedDoc = { ...doc, sourceId };
+        setExtractedDocuments(prev => [...prev.filter(other => other.id !== sourcedDoc.id), sourcedDoc]);
+        saveToLibrary(sourcedDoc, file);
+      }
+    } catch (error) {
+      if (superseded()) return;
+      retryJobs.current.set(statusId, { sourceId, file, options });
+      // extractText has already marked the status as cancelled
+      if (controller.signal.aborted) return;
+
+      console.error(`Failed to process ${label}:`, error);
+      report({
+        id: statusId,
+        status: 'error',
+        progress: 0,
+        message: 'Processing failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      finishJob(statusId, controller);
+    }
+  }, [startJob, finishJob, saveToLibrary, updateProcessingStatus]);
+
+  const processUpload = useCallback(async (uploadedFile: UploadedFile) => {
+    const isArchive = uploadedFile.detection
+      ? uploadedFile.detection.format === ARCHIVE_FORMAT
+      : isArchiveFile(uploadedFile.file);
+    if (!isArchive) {
+      await extractDocument(uploadedFile.file, uploadedFile.id, {
+        detection: uploadedFile.detection,
+        encoding: uploadedFile.encoding,
+        preprocessing
+      });
       return;
     }
 
-    setIsProcessing(true);
-    const extractor = DocumentExtractor.getInstance();
-    const newDocuments: ExtractedDocument[] = [];
-
-    for (const uploadedFile of files) {
-      try {
-        // Check if already processed
-        const alreadyProcessed = extractedDocuments.find(
-          doc => doc.fileName === uploadedFile.name && doc.fileType === uploadedFile.type
-        );
-        
-        if (alreadyProcessed) {
-          newDocuments.push(alreadyProcessed);
-          continue;
-        }
-
-        const extractedDoc = await extractor.extractText(
-          uploadedFile.file,
-          updateProcessingStatus
-        );
-        
-        newDocuments.push(extractedDoc);
-      } catch (error) {
-        console.error(`Failed to process ${uploadedFile.name}:`, error);
-        updateProcessingStatus({
-          id: uploadedFile.name,
-          status: 'error',
+    // Archives count as one upload but expand into a document per supported entry
+    const controller = startJob(uploadedFile.id, uploadedFile.id);
+    const report = (status: ProcessingStatusType) => {
+      if (controller.signal.reason === SUPERSEDED) return;
+      updateProcessingStatus({ ...status, sourceId: uploadedFile.id, label: uploadedFile.name });
+    };
+
+    try {
+      const { entries, skipped } = await ExtractionWorkerPool.getInstance().expandArchive(uploadedFile.file, message => {
+        report({
+          id: uploadedFile.id,
+          status: 'extracting',
+          progress: 10,
+          message
+        });
+      }, controller.signal);
+
+      report({
+        id: uploadedFile.id,
+        status: 'completed',
+        progress: 100,
+        message: `Unpacked ${entries.length} document${entries.length === 1 ? '' : 's'} from archive.`,
+        warnings: skipped.length > 0 ? skipped : undefined
+      });
+      finishJob(uploadedFile.id, controller);
+
+      await Promise.all(entries.map(entry => extractDocument(entry.file, uploadedFile.id, {
+        archivePath: entry.archivePath,
+        preprocessing
+      })));
+    } catch (error) {
+      finishJob(uploadedFile.id, controller);
+      if (controller.signal.reason === SUPERSEDED) return;
+      retryJobs.current.set(uploadedFile.id, { sourceId: uploadedFile.id, upload: uploadedFile });
+
+      if (controller.signal.aborted) {
+        report({
+          id: uploadedFile.id,
+          status: 'cancelled',
           progress: 0,
-          message: 'Processing failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
+          message: 'Cancelled'
         });
+        return;
+      }
+
+      console.error(`Failed to unpack ${uploadedFile.name}:`, error);
+      report({
+        id: uploadedFile.id,
+        status: 'error',
+        progress: 0,
+        message: 'Unpacking failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }, [extractDocument, startJob, finishJob, updateProcessingStatus, preprocessing]);
+
+  /**
+   * Stop an upload's jobs and forget its documents and statuses
+   */
+  const dropUpload = useCallback((sourceId: string) => {
+    runningJobs.current.forEach((job, statusId) => {
+      if (job.sourceId !== sourceId) return;
+      job.controller.abort(SUPERSEDED);
+      runningJobs.current.delete(statusId);
+    });
+    retryJobs.current.forEach((job, statusId) => {
+      if (job.sourceId === sourceId) retryJobs.current.delete(statusId);
+    });
+    setExtractedDocuments(prev => prev.filter(doc => doc.sourceId !== sourceId));
+    setProcessingStatuses(prev => prev.filter(status => status.sourceId !== sourceId));
+  }, []);
+
+  const handleCancel = useCallback((statusId: string) => {
+    runningJobs.current.get(statusId)?.controller.abort();
+  }, []);
+
+  const handleRetry = useCallback((statusId: string) => {
+    const job = retryJobs.current.get(statusId);
+    if (!job) return;
+    if ('upload' in job) {
+      processUpload(job.upload);
+    } else {
+      extractDocument(job.file, job.sourceId, job.options);
+    }
+  }, [extractDocument, processUpload]);
+
+  const handleDocumentUpdate = useCallback((updatedDocument: ExtractedDocument) => {
+    setExtractedDocuments(prev => prev.map(doc => doc.id === updatedDocument.id ? updatedDocument : doc));
+    if (DocumentStore.isSupported()) {
+      DocumentStore.getInstance().update(updatedDocument)
+        .then(() => setLibraryVersion(version => version + 1))
+        .catch(error => console.warn(`Failed to update ${updatedDocument.fileName} in the library:`, error));
+    }
+  }, []);
+
+  /**
+   * Preprocess and tokenize an open document again from its extracted text.
+   * A newer request for the same document cancels the older one.
+   */
+  const handleReprocess = useCallback(async (
+    doc: ExtractedDocument,
+    settings: PreprocessingSettings,
+    onProgress?: (progress: number, message: string) => void
+  ) => {
+    reprocessJobs.current.get(doc.id)?.abort();
+    const controller = new AbortController();
+    reprocessJobs.current.set(doc.id, controller);
+
+    try {
+      const updated = await DocumentExtractor.getInstance().reprocessDocument(doc, settings, onProgress, controller.signal);
+      handleDocumentUpdate(updated);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      throw error;
+    } finally {
+      if (reprocessJobs.current.get(doc.id) === controller) {
+        reprocessJobs.current.delete(doc.id);
       }
     }
+  }, [handleDocumentUpdate]);
 
-    setExtractedDocuments(newDocuments);
-    setIsProcessing(false);
-  }, [extractedDocuments, updateProcessingStatus]);
+  const handleApplyPreprocessing = useCallback(async () => {
+    setIsApplyingPreprocessing(true);
+    try {
+      await Promise.all(extractedDocuments.map(doc => handleReprocess(doc, preprocessing).catch(error => {
+        console.error(`Failed to reprocess ${doc.fileName}:`, error);
+      })));
+    } finally {
+      setIsApplyingPreprocessing(false);
+    }
+  }, [extractedDocuments, preprocessing, handleReprocess]);
+
+  const handleReopen = useCallback((storedDocument: ExtractedDocument) => {
+    // Reopened documents belong to the library, not to an upload that may be removed
+    const reopened = { ...storedDocument, sourceId: undefined };
+    setExtractedDocuments(prev => prev.some(doc => doc.id === reopened.id) ? prev : [...prev, reopened]);
+  }, []);
 
+  /**
+   * Process only what changed: new uploads, and uploads whose settings changed.
+   * Documents of unchanged uploads, running or finished, are left alone.
+   */
   const handleFilesSelected = useCallback((files: UploadedFile[]) => {
-    setUploadedFiles(files);
-    processDocuments(files);
-  }, [processDocuments]);
+    const previous = uploadedFilesRef.current;
+    uploadedFilesRef.current = files;
+
+    const unchanged = (file: UploadedFile, others: UploadedFile[]) =>
+      others.some(other => other.id === file.id && other.encoding === file.encoding);
+
+    previous.filter(file => !unchanged(file, files)).forEach(file => dropUpload(file.id));
+    files.filter(file => !unchanged(file, previous)).forEach(file => {
+      processUpload(file);
+    });
+  }, [dropUpload, processUpload]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -85,14 +307,40 @@ function App() {
               <FileUpload 
                 onFilesSelected={handleFilesSelected}
                 maxFiles={5}
-                disabled={isProcessing}
               />
+
+              <div className="mt-6 space-y-2">
+                <PreprocessingProfilePicker settings={preprocessing} onChange={setPreprocessing} />
+                {extractedDocuments.length > 0 && (
+                  <button
+                    onClick={handleApplyPreprocessing}
+                    disabled={isApplyingPreprocessing}
+                    className="px-3 py-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isApplyingPreprocessing
+                      ? 'Reprocessing...'
+                      : `Apply to ${extractedDocuments.length} open document${extractedDocuments.length === 1 ? '' : 's'}`}
+                  </button>
+                )}
+              </div>
               
               {processingStatuses.length > 0 && (
                 <div className="mt-8">
-                  <ProcessingStatus statuses={processingStatuses} />
+                  <ProcessingStatus
+                    statuses={processingStatuses}
+                    onCancel={handleCancel}
+                    onRetry={handleRetry}
+                  />
                 </div>
               )}
+
+              <div className="mt-8">
+                <DocumentLibrary
+                  openDocumentIds={extractedDocuments.map(doc => doc.id)}
+                  onReopen={handleReopen}
+                  refreshKey={libraryVersion}
+                />
+              </div>
             </div>
           </div>
 
@@ -102,13 +350,20 @@ function App() {
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-semibold text-gray-900">Extracted Content</h2>
                 {extractedDocuments.length > 0 && (
-                  <div className="text-sm text-gray-600">
-                    {extractedDocuments.reduce((total, doc) => total + doc.wordCount, 0).toLocaleString()} total words
+                  <div className="flex items-center space-x-4">
+                    <div className="text-sm text-gray-600">
+                      {extractedDocuments.reduce((total, doc) => total + doc.wordCount, 0).toLocaleString()} total words
+                    </div>
+                    <CorpusExport documents={extractedDocuments} />
                   </div>
                 )}
               </div>
               
-              <ExtractedContent documents={extractedDocuments} />
+              <ExtractedContent
+                documents={extractedDocuments}
+                onDocumentUpdate={handleDocumentUpdate}
+                onReprocess={handleReprocess}
+              />
             </div>
           </div>
         </div>
@@ -128,7 +383,7 @@ function App() {
                 <div className="text-2xl font-bold text-blue-600">
                   {Math.round((extractedDocuments.filter(doc => 
                     processingStatuses.find(status => 
-                      status.id.includes(doc.fileName) && status.status === 'completed'
+                      (status.label ?? status.id).includes(doc.fileName) && status.status === 'completed'
                     )
                   ).length / Math.max(extractedDocuments.length, 1)) * 100)}%
                 </div>
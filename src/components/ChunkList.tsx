@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Scissors } from 'lucide-react';
+import { ChunkingOptions, ChunkingStrategy, ExtractedDocument } from '../types';
+import { TextChunker, DEFAULT_CHUNKING_OPTIONS } from '../utils/chunking';
+
+interface ChunkListProps {
+  document: ExtractedDocument;
+  onDocumentUpdate?: (document: ExtractedDocument) => void;
+}
+
+const STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  headers: 'Headers',
+  fields: 'Field markers',
+  paragraphs: 'Paragraphs',
+  tokens: 'Fixed token count'
+};
+
+export const ChunkList: React.FC<ChunkListProps> = ({ document, onDocumentUpdate }) => {
+  const [options, setOptions] = useState<ChunkingOptions>(document.chunkingOptions || DEFAULT_CHUNKING_OPTIONS);
+  const chunks = document.chunks || [];
+
+  const handleRechunk = () => {
+    const chunker = TextChunker.getInstance();
+    onDocumentUpdate?.({
+      ...document,
+      chunkingOptions: options,
+      chunks: chunker.chunkDocument(document, options)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Chunking Options */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Split on</label>
+          <select
+            value={options.strategy}
+            onChange={(e) => setOptions(prev => ({ ...prev, strategy: e.target.value as ChunkingStrategy }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Max tokens</label>
+          <input
+            type="number"
+            min={16}
+            value={options.maxTokens}
+            onChange={(e) => setOptions(prev => ({ ...prev, maxTokens: Number(e.target.value) }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Overlap tokens</label>
+          <input
+            type="number"
+            min={0}
+            value={options.overlapTokens}
+            onChange={(e) => setOptions(prev => ({ ...prev, overlapTokens: Number(e.target.value) }))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <button
+          onClick={handleRechunk}
+          disabled={!onDocumentUpdate || options.maxTokens < 1}
+          className="flex items-center justify-center space-x-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Scissors className="w-4 h-4" />
+          <span>Re-chunk</span>
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {chunks.length} chunk{chunks.length === 1 ? '' : 's'}
+        {chunks[0]?.tokenCountEstimated && ' • token counts estimated (document was not tokenized)'}
+      </p>
+
+      {/* Chunks */}
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {chunks.map(chunk => (
+          <div key={chunk.id} className="border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="font-medium text-gray-900">#{chunk.index + 1}</span>
+                {chunk.heading && (
+                  <span className="text-gray-600 truncate">{chunk.heading}</span>
+                )}
+              </div>
+              <div className="flex items-center space-x-3 text-gray-500 flex-shrink-0">
+                <span>chars {chunk.charStart.toLocaleString()}–{chunk.charEnd.toLocaleString()}</span>
+                <span>tokens {chunk.tokenStart.toLocaleString()}–{chunk.tokenEnd.toLocaleString()}</span>
+                <span className="font-medium text-gray-700">
+                  {chunk.tokenCountEstimated ? '~' : ''}{chunk.tokenCount.toLocaleString()} tokens
+                </span>
+              </div>
+            </div>
+            <p className="p-3 text-sm text-gray-700 whitespace-pre-wrap max-h-40 overflow-y-auto">
+              {chunk.text}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { FileJson } from 'lucide-react';
+import { ExtractedDocument } from '../types';
+import { buildCorpusJsonl, buildCorpusRecords, ExportGranularity } from '../utils/corpusExport';
+import { downloadFile } from '../utils/download';
+
+interface CorpusExportProps {
+  documents: ExtractedDocument[];
+}
+
+const GRANULARITY_OPTIONS: Array<{ value: ExportGranularity; label: string; description: string }> = [
+  { value: 'chunked', label: 'Chunked', description: 'One record per chunk, with its token IDs' },
+  { value: 'preprocessed', label: 'Preprocessed', description: 'One record per document, cleaned for LLMs' },
+  { value: 'raw', label: 'Raw', description: 'One record per document, as extracted' }
+];
+
+export const CorpusExport: React.FC<CorpusExportProps> = ({ documents }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [granularity, setGranularity] = useState<ExportGranularity>('chunked');
+  const [includeHeader, setIncludeHeader] = useState(true);
+
+  const recordCount = isOpen ? buildCorpusRecords(documents, granularity).length : 0;
+
+  const handleExport = () => {
+    const jsonl = buildCorpusJsonl(documents, { granularity, includeHeader });
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(jsonl, `corpus_${granularity}_${timestamp}.jsonl`, 'application/jsonl');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={documents.length === 0}
+        title="Export all documents as JSONL"
+        className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FileJson className="w-4 h-4" />
+        <span>Export JSONL</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-40">
+          <div className="p-4 border-b border-gray-200">
+            <h3 className="text-base font-medium text-gray-900">Export Corpus</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              One JSONL file covering all {documents.length} document{documents.length === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          <div className="p-4 space-y-3">
+            {GRANULARITY_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-granularity"
+                  checked={granularity === option.value}
+                  onChange={() => setGranularity(option.value)}
+                  className="mt-1"
+                />
+                <div>
+                  <span className="text-sm font-medium text-gray-900">{option.label}</span>
+                  <p className="text-xs text-gray-500">{option.description}</p>
+                </div>
+              </label>
+            ))}
+
+            <label className="flex items-center space-x-2 pt-2 border-t border-gray-100 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeHeader}
+                onChange={(e) => setIncludeHeader(e.target.checked)}
+              />
+              <span className="text-sm text-gray-700">Include schema/version header line</span>
+            </label>
+          </div>
+
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+            <span className="text-xs text-gray-500">{recordCount.toLocaleString()} records</span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                className="px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+              >
+                Export
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
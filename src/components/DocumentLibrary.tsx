@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Download, FolderOpen, Trash2 } from 'lucide-react';
+import { ExtractedDocument } from '../types';
+import { DocumentStore, StorageEstimate } from '../utils/documentStore';
+import { downloadFile } from '../utils/download';
+import { formatFileSize } from '../utils/fileValidation';
+
+interface DocumentLibraryProps {
+  // Ids of the documents currently shown, which cannot be reopened again
+  openDocumentIds: string[];
+  onReopen: (document: ExtractedDocument) => void;
+  // Changes whenever the library contents change outside this component
+  refreshKey: number;
+}
+
+export const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ openDocumentIds, onReopen, refreshKey }) => {
+  const [documents, setDocuments] = useState<ExtractedDocument[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate>();
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const store = DocumentStore.getInstance();
+    try {
+      setDocuments(await store.list());
+      setEstimate(await store.getStorageEstimate());
+      setError(null);
+    } catch (libraryError) {
+      console.error('Failed to read document library:', libraryError);
+      setError('The document library is unavailable in this browser session.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await DocumentStore.getInstance().delete(id);
+    } catch (deleteError) {
+      console.error('Failed to delete document from library:', deleteError);
+      setError('Failed to delete the document from the library.');
+    }
+    refresh();
+  };
+
+  const handleDownloadOriginal = async (id: string) => {
+    try {
+      const stored = await DocumentStore.getInstance().getFile(id);
+      if (!stored) {
+        setError('The original file is no longer in the library.');
+        return;
+      }
+      downloadFile(stored.file, stored.fileName, stored.file.type || 'application/octet-stream');
+    } catch (downloadError) {
+      console.error('Failed to read original file from library:', downloadError);
+      setError('Failed to read the original file from the library.');
+    }
+  };
+
+  if (!DocumentStore.isSupported()) return null;
+
+  const usageShare = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center text-lg font-medium text-gray-900">
+          <Database className="w-5 h-5 mr-2 text-gray-500" />
+          Library
+        </h3>
+        <span className="text-xs text-gray-500">
+          {documents.length} document{documents.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {/* Storage quota */}
+      {estimate && (
+        <div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5">
+            <div
+              className={`h-1.5 rounded-full ${usageShare > 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, Math.max(usageShare * 100, 1))}%` }}
+            ></div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatFileSize(estimate.usage)} of {formatFileSize(estimate.quota)} browser storage used
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Processed documents are kept here across page reloads.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {documents.map(doc => {
+            const isOpen = openDocumentIds.includes(doc.id);
+            return (
+              <li key={doc.id} className="flex items-center justify-between p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate max-w-[12rem]" title={doc.metadata?.archivePath ?? doc.fileName}>
+                    {doc.fileName}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {doc.wordCount.toLocaleString()} words
+                    {doc.tokenizedData && ` • ${doc.tokenizedData.tokenCount.toLocaleString()} tokens`}
+                    {' • '}{doc.extractedAt.toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => onReopen(doc)}
+                    disabled={isOpen}
+                    className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={isOpen ? 'Already open' : 'Reopen'}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDownloadOriginal(doc.id)}
+                    className="p-1 text-gray-400 hover:text-gray-700 transition-colors"
+                    title="Download original file"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(doc.id)}
+                    className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                    title="Delete from library"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { ExtractedDocument, PreprocessingSettings } from '../types';
+import { DEFAULT_PREPROCESSING } from '../utils/textPreprocessing';
+import { PreprocessingProfilePicker } from './PreprocessingProfilePicker';
+
+interface DocumentPreprocessingProps {
+  document: ExtractedDocument;
+  onReprocess?: (
+    document: ExtractedDocument,
+    preprocessing: PreprocessingSettings,
+    onProgress: (progress: number, message: string) => void
+  ) => Promise<void>;
+}
+
+export const DocumentPreprocessing: React.FC<DocumentPreprocessingProps> = ({ document, onReprocess }) => {
+  // Settings being applied; the document's own settings once reprocessing finishes
+  const [pending, setPending] = useState<PreprocessingSettings | null>(null);
+  const [progressMessage, setProgressMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (preprocessing: PreprocessingSettings) => {
+    if (!onReprocess) return;
+    setPending(preprocessing);
+    setError(null);
+    try {
+      await onReprocess(document, preprocessing, (_, message) => setProgressMessage(message));
+    } catch (reprocessError) {
+      console.error(`Failed to reprocess ${document.fileName}:`, reprocessError);
+      setError(reprocessError instanceof Error ? reprocessError.message : 'Reprocessing failed');
+    } finally {
+      setPending(null);
+      setProgressMessage('');
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+      <PreprocessingProfilePicker
+        settings={pending ?? document.preprocessing ?? DEFAULT_PREPROCESSING}
+        onChange={handleChange}
+        disabled={!onReprocess || pending !== null}
+      />
+      {pending && (
+        <p className="flex items-center text-xs text-blue-700 mt-2">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          {progressMessage || 'Reprocessing...'}
+        </p>
+      )}
+      {error && (
+        <p className="text-xs text-red-600 mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
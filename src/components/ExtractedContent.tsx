@@ -1,15 +1,37 @@
 import React, { useState } from 'react';
-import { FileText, Download, Search, Copy, Check, Wand2 } from 'lucide-react';
-import { ExtractedDocument } from '../types';
+import { FileText, FileJson, Download, Search, Copy, Check, Wand2, ShieldCheck } from 'lucide-react';
+import { ExtractedDocument, PiiEntityType, PiiReplacement, PreprocessingSettings, TokenBudgetStep } from '../types';
+import { ModelComparison } from './ModelComparison';
+import { ChunkList } from './ChunkList';
+import { DocumentPreprocessing } from './DocumentPreprocessing';
+import { RulePipelineEditor } from './RulePipelineEditor';
+import { downloadFile } from '../utils/download';
+import { describeProperties, propertiesFrontMatter } from '../utils/documentMetadata';
+import { PII_TYPE_LABELS, redactDocumentForExport } from '../utils/piiRedaction';
+import { escapeHtml } from '../utils/htmlText';
 
 interface ExtractedContentProps {
   documents: ExtractedDocument[];
+  onDocumentUpdate?: (document: ExtractedDocument) => void;
+  // Re-run preprocessing, tokenization and chunking with other settings
+  onReprocess?: (
+    document: ExtractedDocument,
+    preprocessing: PreprocessingSettings,
+    onProgress: (progress: number, message: string) => void
+  ) => Promise<void>;
 }
 
-export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents }) => {
+const BUDGET_STEP_LABELS: Record<TokenBudgetStep, string> = {
+  boilerplate: 'Headers and footers',
+  normalize: 'Whitespace and punctuation',
+  sections: 'Low-value sections',
+  truncate: 'Truncation'
+};
+
+export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents, onDocumentUpdate, onReprocess }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDocument, setSelectedDocument] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'original' | 'preprocessed' | 'tokenized'>('original');
+  const [viewMode, setViewMode] = useState<'original' | 'markdown' | 'preprocessed' | 'tokenized' | 'chunks' | 'compare' | 'rules'>('original');
   const [copiedStates, setCopiedStates] = useState<{ [key: string]: boolean }>({});
 
   const filteredDocuments = documents.filter(doc =>
@@ -17,38 +39,75 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
     doc.extractedText.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const highlightText = (text: string, search: string) => {
-    if (!search.trim()) return text;
-    
-    const regex = new RegExp(`(${search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    return text.replace(regex, '<mark class="bg-yellow-200">$1</mark>');
+  // Search hits, and personal data found during preprocessing, for review.
+  // Document text is escaped: decoded entities must not become markup.
+  const highlightText = (text: string, search: string, pii: PiiReplacement[] = []) => {
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Preprocessing may have changed the spacing of a value
+    const normalize = (value: string) => value.replace(/\s+/g, ' ').toLowerCase();
+    const piiByValue = new Map(pii.map(entry => [normalize(entry.value), entry]));
+    const piiPattern = [...pii]
+      .sort((a, b) => b.value.length - a.value.length)
+      .map(entry => escape(entry.value).replace(/\s+/g, '\\s+'))
+      .join('|');
+    if (!search.trim() && !piiPattern) return escapeHtml(text);
+
+    const regex = new RegExp(`(${piiPattern || '(?!)'})|(${search.trim() ? escape(search) : '(?!)'})`, 'gi');
+    let html = '';
+    let position = 0;
+    for (const match of text.matchAll(regex)) {
+      const start = match.index ?? 0;
+      const entry = match[1] && piiByValue.get(normalize(match[1]));
+      html += escapeHtml(text.slice(position, start));
+      html += entry
+        ? `<mark class="bg-red-100 text-red-900 rounded" title="${escapeHtml(`${PII_TYPE_LABELS[entry.type]}: replaced with ${entry.replacement}`)}">${escapeHtml(match[0])}</mark>`
+        : `<mark class="bg-yellow-200">${escapeHtml(match[0])}</mark>`;
+      position = start + match[0].length;
+    }
+    return html + escapeHtml(text.slice(position));
   };
 
-  const downloadExtractedText = (doc: ExtractedDocument) => {
-    const element = document.createElement('a');
+  const downloadExtractedText = (original: ExtractedDocument) => {
     let textToDownload: string;
     let filename: string;
+    // Downloads leave the browser, so they carry the redacted text
+    const doc = redactDocumentForExport(original);
     
+    // Exports carry the document properties: JSON alongside the data, text as front matter.
+    // Token IDs stay a plain array, which is what readers of that export expect.
+    const { preprocessingStats, ...properties } = doc.metadata ?? {};
+
     if (viewMode === 'preprocessed' && doc.tokenizedData?.tokenIds.length) {
       textToDownload = JSON.stringify(doc.tokenizedData.tokenIds);
       filename = `${doc.fileName}_token_ids.json`;
     } else if (viewMode === 'tokenized' && doc.tokenizedData?.tokens.length) {
-      textToDownload = doc.tokenizedData.tokens.join(' ');
+      textToDownload = propertiesFrontMatter(doc) + doc.tokenizedData.tokens.join(' ');
       filename = `${doc.fileName}_tokens.txt`;
+    } else if (viewMode === 'markdown' && doc.markdownText) {
+      textToDownload = propertiesFrontMatter(doc) + doc.markdownText;
+      filename = `${doc.fileName}.md`;
+    } else if (viewMode === 'chunks' && doc.chunks?.length) {
+      textToDownload = JSON.stringify({ fileName: doc.fileName, metadata: { ...properties, preprocessingStats }, chunks: doc.chunks }, null, 2);
+      filename = `${doc.fileName}_chunks.json`;
     } else if (doc.preprocessedText) {
-      textToDownload = doc.preprocessedText;
+      textToDownload = propertiesFrontMatter(doc) + doc.preprocessedText;
       filename = `${doc.fileName}_original.txt`;
     } else {
-      textToDownload = doc.extractedText;
+      textToDownload = propertiesFrontMatter(doc) + doc.extractedText;
       filename = `${doc.fileName}_original.txt`;
     }
-    
-    const file = new Blob([textToDownload], { type: 'text/plain' });
-    element.href = URL.createObjectURL(file);
-    element.download = filename;
-    document.body.appendChild(element);
-    element.click();
-    document.body.removeChild(element);
+
+    downloadFile(textToDownload, filename);
+  };
+
+  const downloadProperties = (original: ExtractedDocument) => {
+    const doc = redactDocumentForExport(original);
+    const { preprocessingStats, ...properties } = doc.metadata ?? {};
+    downloadFile(
+      JSON.stringify({ fileName: doc.fileName, metadata: { ...properties, preprocessingStats } }, null, 2),
+      `${doc.fileName}_metadata.json`,
+      'application/json'
+    );
   };
 
   const copyToClipboard = async (text: string, docId: string) => {
@@ -70,6 +129,12 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
     } else if (viewMode === 'tokenized' && doc.tokenizedData?.tokens.length) {
       // Tokens: Return actual tokens as space-separated text
       return doc.tokenizedData.tokens.join(' ');
+    } else if (viewMode === 'markdown' && doc.markdownText) {
+      // Markdown: Return the structure-preserving rendering
+      return doc.markdownText;
+    } else if (viewMode === 'chunks' && doc.chunks?.length) {
+      // Chunks: Return chunk texts separated by a visible divider
+      return doc.chunks.map(chunk => chunk.text).join('\n\n---\n\n');
     } else {
       // Original: Return original extracted text
       return doc.extractedText;
@@ -116,6 +181,16 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
           >
             Original
           </button>
+          <button
+            onClick={() => setViewMode('markdown')}
+            className={`px-3 py-1 text-sm font-medium transition-colors border-l border-gray-200 ${
+              viewMode === 'markdown'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Markdown
+          </button>
           <button
             onClick={() => setViewMode('preprocessed')}
             className={`px-3 py-1 text-sm font-medium transition-colors border-l border-gray-200 ${
@@ -136,6 +211,36 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
           >
             Tokens
           </button>
+          <button
+            onClick={() => setViewMode('chunks')}
+            className={`px-3 py-1 text-sm font-medium transition-colors border-l border-gray-200 ${
+              viewMode === 'chunks'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Chunks
+          </button>
+          <button
+            onClick={() => setViewMode('compare')}
+            className={`px-3 py-1 text-sm font-medium transition-colors border-l border-gray-200 ${
+              viewMode === 'compare'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Compare
+          </button>
+          <button
+            onClick={() => setViewMode('rules')}
+            className={`px-3 py-1 text-sm font-medium transition-colors border-l border-gray-200 ${
+              viewMode === 'rules'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 hover:text-gray-800'
+            }`}
+          >
+            Rules
+          </button>
         </div>
       </div>
 
@@ -155,7 +260,10 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                     <h4 className="font-medium text-gray-900">{doc.fileName}</h4>
                     <p className="text-sm text-gray-500">
                       {doc.extractedText.length.toLocaleString()} characters
+                      {doc.pages && ` • ${doc.pages.length.toLocaleString()} pages`}
+                      {doc.tables && ` • ${doc.tables.length.toLocaleString()} tables`}
                       {doc.tokenizedData && ` • ${doc.tokenizedData.tokenCount.toLocaleString()} tokens`}
+                      {doc.chunks && ` • ${doc.chunks.length.toLocaleString()} chunks`}
                     </p>
                   </div>
                 </div>
@@ -163,7 +271,7 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      copyToClipboard(getTextToCopy(doc), doc.id);
+                      copyToClipboard(getTextToCopy(redactDocumentForExport(doc)), doc.id);
                     }}
                     className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
                     title="Copy to clipboard"
@@ -184,6 +292,16 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                   >
                     <Download className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      downloadProperties(doc);
+                    }}
+                    className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Download document properties (JSON)"
+                  >
+                    <FileJson className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             </div>
@@ -191,6 +309,46 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
             {/* Expanded Content */}
             {selectedDocument === doc.id && (
               <div className="p-4">
+                {/* Document Properties */}
+                {viewMode === 'original' && describeProperties(doc).length > 0 && (
+                  <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <h5 className="text-sm font-medium text-gray-900 mb-2">Document Properties</h5>
+                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-700">
+                      {describeProperties(doc).map(([label, value]) => (
+                        <div key={label} className="min-w-0 truncate" title={value}>
+                          <dt className="inline font-medium">{label}:</dt> <dd className="inline">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+
+                {/* Personal Data Review */}
+                {(viewMode === 'original' || viewMode === 'markdown') && doc.piiReplacements && doc.piiReplacements.length > 0 && (
+                  <div className="mb-4 p-3 bg-red-50 rounded-lg border border-red-200">
+                    <h5 className="flex items-center text-sm font-medium text-red-900 mb-1">
+                      <ShieldCheck className="w-4 h-4 mr-1" />
+                      Personal Data ({doc.piiReplacements.length.toLocaleString()} values)
+                    </h5>
+                    <p className="text-xs text-red-700 mb-2">
+                      Highlighted below. Tokens, chunks, copies and downloads use the replacements.
+                    </p>
+                    <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-red-800">
+                      {doc.piiReplacements.map(entry => (
+                        <li key={`${entry.type}:${entry.value}`} className="truncate" title={`${entry.value} → ${entry.replacement}`}>
+                          <span className="text-red-500">{PII_TYPE_LABELS[entry.type]}:</span> {entry.value} → {entry.replacement}
+                          {entry.count > 1 && ` (×${entry.count})`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Preprocessing Profile */}
+                {(viewMode === 'preprocessed' || viewMode === 'tokenized') && (
+                  <DocumentPreprocessing document={doc} onReprocess={onReprocess} />
+                )}
+
                 {/* Preprocessing Stats */}
                 {(viewMode === 'preprocessed' || viewMode === 'tokenized') && doc.metadata?.preprocessingStats && (
                   <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
@@ -204,6 +362,43 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                         <span className="font-medium">Structure:</span> {Math.round(doc.metadata.preprocessingStats.structureImprovement * 100)}% improvement
                       </div>
                     </div>
+                    {doc.metadata.preprocessingStats.budget && (
+                      <div className="mt-2 text-xs text-blue-700">
+                        <span className="font-medium">Token budget:</span> {doc.metadata.preprocessingStats.budget.initialTokens.toLocaleString()}
+                        {' → '}{doc.metadata.preprocessingStats.budget.finalTokens.toLocaleString()} of {doc.metadata.preprocessingStats.budget.maxTokens.toLocaleString()} tokens
+                        {doc.metadata.preprocessingStats.budget.estimated && ' (estimated)'}
+                        <ul className="mt-1 space-y-0.5">
+                          {doc.metadata.preprocessingStats.budget.steps.map(step => (
+                            <li key={step.step} className="truncate" title={step.removed.join('\n')}>
+                              <span className="text-blue-500">{BUDGET_STEP_LABELS[step.step]}:</span>
+                              {' '}-{(step.tokensBefore - step.tokensAfter).toLocaleString()} tokens
+                              {step.removed.length > 0 && ` (${step.removed.join('; ')})`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {doc.metadata.preprocessingStats.pii && (
+                      <div className="mt-2 text-xs text-blue-700">
+                        <span className="font-medium">Personal data:</span> {doc.metadata.preprocessingStats.pii.entityCount.toLocaleString()} replaced
+                        {doc.metadata.preprocessingStats.pii.entityCount > 0 && ` (${(Object.entries(doc.metadata.preprocessingStats.pii.byType) as Array<[PiiEntityType, number]>)
+                          .map(([type, count]) => `${PII_TYPE_LABELS[type]}: ${count.toLocaleString()}`)
+                          .join(', ')})`}
+                      </div>
+                    )}
+                    {doc.metadata.preprocessingStats.boilerplate && doc.metadata.preprocessingStats.boilerplate.removedLines > 0 && (
+                      <div className="mt-2 text-xs text-blue-700">
+                        <span className="font-medium">Boilerplate:</span> removed {doc.metadata.preprocessingStats.boilerplate.removedLines.toLocaleString()} lines
+                        ({doc.metadata.preprocessingStats.boilerplate.removedCharacters.toLocaleString()} characters)
+                        <ul className="mt-1 space-y-0.5">
+                          {doc.metadata.preprocessingStats.boilerplate.removed.map(item => (
+                            <li key={item.text} className="truncate" title={item.text}>
+                              <span className="text-blue-500">{item.position} on {item.pageCount} pages:</span> {item.text}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 )}
                 
@@ -228,7 +423,13 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                   </div>
                 )}
                 
-                {viewMode === 'preprocessed' && doc.tokenizedData?.tokenIds.length ? (
+                {viewMode === 'chunks' ? (
+                  <ChunkList document={doc} onDocumentUpdate={onDocumentUpdate} />
+                ) : viewMode === 'compare' ? (
+                  <ModelComparison document={doc} onDocumentUpdate={onDocumentUpdate} />
+                ) : viewMode === 'rules' ? (
+                  <RulePipelineEditor document={doc} onReprocess={onReprocess} />
+                ) : viewMode === 'preprocessed' && doc.tokenizedData?.tokenIds.length ? (
                   <div>
                     <h6 className="text-sm font-medium text-gray-900 mb-2">
                       Token IDs ({doc.tokenizedData.tokenIds.length}) - Ready for LLM Processing
@@ -262,10 +463,15 @@ export const ExtractedContent: React.FC<ExtractedContentProps> = ({ documents })
                   </div>
                 ) : (
                   <div className="bg-gray-50 rounded-lg p-4 max-h-96 overflow-y-auto">
+                    {viewMode === 'markdown' && !doc.markdownText && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        No Markdown rendering for this file type; showing the original text.
+                      </p>
+                    )}
                     <div 
                       className="text-sm text-gray-700 whitespace-pre-wrap"
                       dangerouslySetInnerHTML={{
-                        __html: highlightText(getTextToCopy(doc), searchTerm)
+                        __html: highlightText(getTextToCopy(doc), searchTerm, doc.piiReplacements)
                       }}
                     />
                   </div>
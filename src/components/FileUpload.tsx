@@ -1,7 +1,10 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Upload, X, FileText, AlertCircle } from 'lucide-react';
 import { UploadedFile } from '../types';
-import { validateFile, getFileTypeIcon, formatFileSize } from '../utils/fileValidation';
+import { detectFileType } from '../utils/fileTypeDetection';
+import { hashFile } from '../utils/fileHash';
+import { TEXT_ENCODINGS } from '../utils/textEncoding';
+import { validateFile, getFileTypeIcon, getFileTypeLabel, formatFileSize, getAcceptList, describeSupportedFormats, hasSelectableEncoding } from '../utils/fileValidation';
 
 interface FileUploadProps {
   onFilesSelected: (files: UploadedFile[]) => void;
@@ -18,54 +21,75 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
 
-  const handleFiles = useCallback((files: FileList | File[]) => {
+  // The latest list, so handlers that resume after an await see files added meanwhile
+  const currentFiles = useRef(uploadedFiles);
+  const updateFiles = useCallback((files: UploadedFile[]) => {
+    currentFiles.current = files;
+    setUploadedFiles(files);
+  }, []);
+
+  // Report the list once it has changed; the handlers below only compute it
+  const reportedFiles = useRef(uploadedFiles);
+  useEffect(() => {
+    if (reportedFiles.current === uploadedFiles) return;
+    reportedFiles.current = uploadedFiles;
+    onFilesSelected(uploadedFiles);
+  }, [uploadedFiles, onFilesSelected]);
+
+  const handleFiles = useCallback(async (files: FileList | File[]) => {
     const fileArray = Array.from(files);
     const newErrors: string[] = [];
-    const validFiles: UploadedFile[] = [];
+    // Browsers report file.type from the extension, so sniff the content as well
+    const detections = await Promise.all(fileArray.map(detectFileType));
 
-    fileArray.forEach((file, index) => {
-      const validation = validateFile(file);
-      
+    const accepted = fileArray.filter((file, index) => {
+      const validation = validateFile(file, detections[index]);
       if (!validation.isValid) {
         newErrors.push(`${file.name}: ${validation.error}`);
-        return;
       }
+      return validation.isValid;
+    });
+    const hashes = await Promise.all(accepted.map(hashFile));
+
+    // Files may have been added or removed while hashing, so check against the latest list
+    const existingFiles = currentFiles.current;
+    const validFiles: UploadedFile[] = [];
+
+    accepted.forEach((file, index) => {
+      const id = hashes[index];
+      const detection = detections[fileArray.indexOf(file)];
+
+      // Check for duplicates, by content rather than by name
+      const isDuplicate = [...existingFiles, ...validFiles].some(existing => existing.id === id);
 
-      // Check for duplicates
-      const isDuplicate = uploadedFiles.some(
-        existing => existing.name === file.name && existing.size === file.size
-      );
-      
       if (isDuplicate) {
         newErrors.push(`${file.name}: File already uploaded`);
         return;
       }
 
       validFiles.push({
-        id: `${file.name}-${Date.now()}-${index}`,
+        id,
         name: file.name,
         size: file.size,
         type: file.type,
         lastModified: file.lastModified,
-        file
+        file,
+        detection
       });
     });
 
     // Check total file limit
-    if (uploadedFiles.length + validFiles.length > maxFiles) {
+    if (existingFiles.length + validFiles.length > maxFiles) {
       newErrors.push(`Cannot upload more than ${maxFiles} files`);
       setValidationErrors(newErrors);
       return;
     }
 
     setValidationErrors(newErrors);
-    
     if (validFiles.length > 0) {
-      const updatedFiles = [...uploadedFiles, ...validFiles];
-      setUploadedFiles(updatedFiles);
-      onFilesSelected(updatedFiles);
+      updateFiles([...existingFiles, ...validFiles]);
     }
-  }, [uploadedFiles, maxFiles, onFilesSelected]);
+  }, [maxFiles, updateFiles]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -97,17 +121,20 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   }, [handleFiles]);
 
   const removeFile = useCallback((fileId: string) => {
-    const updatedFiles = uploadedFiles.filter(file => file.id !== fileId);
-    setUploadedFiles(updatedFiles);
-    onFilesSelected(updatedFiles);
+    updateFiles(currentFiles.current.filter(file => file.id !== fileId));
     setValidationErrors([]);
-  }, [uploadedFiles, onFilesSelected]);
+  }, [updateFiles]);
+
+  const setEncoding = useCallback((fileId: string, encoding: string) => {
+    updateFiles(currentFiles.current.map(file =>
+      file.id === fileId ? { ...file, encoding: encoding || undefined } : file
+    ));
+  }, [updateFiles]);
 
   const clearAll = useCallback(() => {
-    setUploadedFiles([]);
+    updateFiles([]);
     setValidationErrors([]);
-    onFilesSelected([]);
-  }, [onFilesSelected]);
+  }, [updateFiles]);
 
   return (
     <div className="w-full">
@@ -131,7 +158,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           id="fileInput"
           type="file"
           multiple
-          accept=".pdf,.docx,.doc,.txt"
+          accept={getAcceptList()}
           onChange={handleChange}
           className="hidden"
           disabled={disabled}
@@ -146,7 +173,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             Drag and drop files here, or click to browse
           </p>
           <p className="text-xs text-gray-500">
-            Supports PDF, Word (.docx), and text files up to 50MB
+            Supports {describeSupportedFormats()} up to 50MB
           </p>
         </div>
       </div>
@@ -190,14 +217,34 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border"
               >
                 <div className="flex items-center space-x-3">
-                  <span className="text-2xl">{getFileTypeIcon(file.type)}</span>
+                  <span className="text-2xl">{getFileTypeIcon(file)}</span>
                   <div>
                     <p className="text-sm font-medium text-gray-900 truncate max-w-xs">
                       {file.name}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {formatFileSize(file.size)} • {file.type.split('/')[1].toUpperCase()}
+                      {formatFileSize(file.size)} • {getFileTypeLabel(file)}
                     </p>
+                    {file.detection?.warning && (
+                      <p className="flex items-center text-xs text-amber-700 mt-1">
+                        <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                        {file.detection.warning}
+                      </p>
+                    )}
+                    {hasSelectableEncoding(file) && (
+                      <select
+                        value={file.encoding ?? ''}
+                        onChange={(e) => setEncoding(file.id, e.target.value)}
+                        disabled={disabled}
+                        className="mt-1 text-xs border border-gray-300 rounded px-1 py-0.5 text-gray-700 bg-white"
+                        title="Character encoding"
+                      >
+                        <option value="">Auto-detect encoding</option>
+                        {TEXT_ENCODINGS.map(option => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                 </div>
                 
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Loader2, AlertCircle } from 'lucide-react';
+import { ExtractedDocument } from '../types';
+import { TokenizationService } from '../utils/tokenization';
+import { compareTokenizations, boundarySegments } from '../utils/tokenComparison';
+
+interface ModelComparisonProps {
+  document: ExtractedDocument;
+  onDocumentUpdate?: (document: ExtractedDocument) => void;
+}
+
+export const ModelComparison: React.FC<ModelComparisonProps> = ({ document, onDocumentUpdate }) => {
+  const [modelInput, setModelInput] = useState(() => {
+    const config = TokenizationService.getInstance().getConfig();
+    const models = config.comparisonModels.length > 0 ? config.comparisonModels : [config.modelName];
+    return models.join(', ');
+  });
+  const [isComparing, setIsComparing] = useState(false);
+  const [progressMessage, setProgressMessage] = useState('');
+  const [errors, setErrors] = useState<Array<{ modelName: string; error: string }>>([]);
+  const [focusedModel, setFocusedModel] = useState(0);
+
+  const text = document.preprocessedText || document.extractedText;
+  const tokenizations = document.modelComparisons;
+
+  const comparisons = useMemo(
+    () => compareTokenizations(text, tokenizations || []),
+    [text, tokenizations]
+  );
+
+  const segments = useMemo(
+    () => comparisons.length > 0
+      ? boundarySegments(text, comparisons, Math.min(focusedModel, comparisons.length - 1))
+      : [],
+    [text, comparisons, focusedModel]
+  );
+
+  const runComparison = async () => {
+    const models = modelInput.split(',').map(name => name.trim()).filter(name => name.length > 0);
+    if (models.length === 0) return;
+
+    setIsComparing(true);
+    setErrors([]);
+
+    try {
+      const { results, errors: modelErrors } = await TokenizationService.getInstance().tokenizeWithModels(
+        text,
+        models,
+        (_, message) => setProgressMessage(message)
+      );
+      setErrors(modelErrors);
+      setFocusedModel(0);
+      onDocumentUpdate?.({ ...document, modelComparisons: results });
+    } finally {
+      setIsComparing(false);
+      setProgressMessage('');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Model Selection */}
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Models to compare
+          </label>
+          <input
+            type="text"
+            value={modelInput}
+            onChange={(e) => setModelInput(e.target.value)}
+            placeholder="Comma-separated model names"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <button
+          onClick={runComparison}
+          disabled={isComparing || !onDocumentUpdate}
+          className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+          <span>{isComparing ? 'Comparing...' : 'Compare'}</span>
+        </button>
+      </div>
+
+      {isComparing && progressMessage && (
+        <p className="text-xs text-gray-500">{progressMessage}</p>
+      )}
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-start">
+            <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 mr-2 flex-shrink-0" />
+            <ul className="text-xs text-red-700 space-y-1">
+              {errors.map(({ modelName, error }) => (
+                <li key={modelName}><strong>{modelName}:</strong> {error}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {comparisons.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Run a comparison to see token counts and boundaries for each model side by side.
+        </p>
+      ) : (
+        <>
+          {/* Summary Table */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Model</th>
+                  <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                  <th className="py-2 pr-4 font-medium text-right">Bytes / token</th>
+                  <th className="py-2 pr-4 font-medium text-right">Chars / token</th>
+                  <th className="py-2 font-medium text-right">Shared boundaries</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparisons.map((comparison, index) => (
+                  <tr
+                    key={`${comparison.modelName}-${index}`}
+                    onClick={() => setFocusedModel(index)}
+                    className={`border-b border-gray-100 cursor-pointer transition-colors ${
+                      index === focusedModel ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="py-2 pr-4 font-medium text-gray-900">{comparison.modelName}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{comparison.tokenCount.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{comparison.bytesPerToken.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{comparison.charsPerToken.toFixed(2)}</td>
+                    <td className="py-2 text-right text-gray-700">{Math.round(comparison.boundaryAgreement * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Boundary Differences */}
+          <div>
+            <h6 className="text-sm font-medium text-gray-900 mb-2">
+              Token boundaries for {comparisons[Math.min(focusedModel, comparisons.length - 1)].modelName}
+            </h6>
+            <div className="flex flex-wrap gap-0.5 max-h-80 overflow-y-auto font-mono text-xs">
+              {segments.map(segment => (
+                <span
+                  key={segment.start}
+                  className={`px-0.5 rounded border whitespace-pre-wrap ${
+                    segment.sharedBoundary
+                      ? 'bg-gray-50 border-gray-200 text-gray-700'
+                      : 'bg-amber-100 border-amber-300 text-amber-900'
+                  }`}
+                  title={segment.sharedBoundary ? 'All models split here' : 'Only some models split here'}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Highlighted tokens start at a boundary that not every model shares. Select a row to inspect another model.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React from 'react';
+import {
+  PiiEntityType,
+  PiiLocale,
+  PiiSettings,
+  PreprocessingOptions,
+  PreprocessingProfileId,
+  PreprocessingSettings,
+  RedactionMode,
+  TruncationStrategy
+} from '../types';
+import { PREPROCESSING_PROFILES } from '../utils/textPreprocessing';
+import { DEFAULT_PII_SETTINGS, PII_LOCALES, PII_TYPE_LABELS } from '../utils/piiRedaction';
+
+interface PreprocessingProfilePickerProps {
+  settings: PreprocessingSettings;
+  onChange: (settings: PreprocessingSettings) => void;
+  disabled?: boolean;
+}
+
+const OPTION_LABELS: Record<keyof PreprocessingOptions, string> = {
+  normalizeWhitespace: 'Normalize whitespace',
+  preserveOriginalStructure: 'Keep line breaks',
+  addFieldMarkers: 'Field markers',
+  addHeaderMarkers: 'Header markers',
+  addGrantSectionMarkers: 'Grant sections',
+  addFormMarkers: 'Checkboxes and signatures',
+  removeBoilerplate: 'Remove headers and footers'
+};
+
+// Common context window sizes
+const TOKEN_BUDGETS = [4000, 8000, 16000, 32000, 128000];
+
+const TRUNCATION_LABELS: Record<TruncationStrategy, string> = {
+  'head-tail': 'Keep start and end',
+  head: 'Keep start',
+  none: "Don't truncate"
+};
+
+const REDACTION_MODE_LABELS: Record<RedactionMode, string> = {
+  redact: 'Redact: [EMAIL]',
+  mask: 'Mask: j***@*****.org',
+  pseudonymize: 'Pseudonymize: [EMAIL_1]'
+};
+
+export const PreprocessingProfilePicker: React.FC<PreprocessingProfilePickerProps> = ({ settings, onChange, disabled }) => {
+  const handleProfileChange = (profile: PreprocessingProfileId) => {
+    onChange(profile === 'custom'
+      ? { ...settings, profile }
+      : { ...settings, profile, options: PREPROCESSING_PROFILES[profile].options });
+  };
+
+  // Any change to an individual option turns the selection into a custom profile
+  const handleToggle = (key: keyof PreprocessingOptions) => {
+    onChange({ ...settings, profile: 'custom', options: { ...settings.options, [key]: !settings.options[key] } });
+  };
+
+  const handleBudgetChange = (maxTokens: number) => {
+    onChange({
+      ...settings,
+      tokenBudget: maxTokens > 0
+        ? { maxTokens, truncation: settings.tokenBudget?.truncation ?? 'head-tail' }
+        : undefined
+    });
+  };
+
+  const handlePiiChange = (changes: Partial<PiiSettings>) => {
+    onChange({ ...settings, pii: { ...(settings.pii ?? DEFAULT_PII_SETTINGS), ...changes } });
+  };
+
+  const handlePiiTypeToggle = (type: PiiEntityType) => {
+    const types = settings.pii?.types ?? [];
+    handlePiiChange({ types: types.includes(type) ? types.filter(existing => existing !== type) : [...types, type] });
+  };
+
+  const budgets = settings.tokenBudget && !TOKEN_BUDGETS.includes(settings.tokenBudget.maxTokens)
+    ? [...TOKEN_BUDGETS, settings.tokenBudget.maxTokens].sort((a, b) => a - b)
+    : TOKEN_BUDGETS;
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Preprocessing profile</label>
+        <select
+          value={settings.profile}
+          onChange={(e) => handleProfileChange(e.target.value as PreprocessingProfileId)}
+          disabled={disabled}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-50"
+        >
+          {Object.entries(PREPROCESSING_PROFILES).map(([id, profile]) => (
+            <option key={id} value={id}>{profile.label}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {settings.profile === 'custom'
+            ? 'Your own choice of the options below'
+            : PREPROCESSING_PROFILES[settings.profile].description}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {(Object.keys(OPTION_LABELS) as Array<keyof PreprocessingOptions>).map(key => (
+          <label key={key} className="flex items-center space-x-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!settings.options[key]}
+              onChange={() => handleToggle(key)}
+              disabled={disabled || (key === 'preserveOriginalStructure' && !settings.options.normalizeWhitespace)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>{OPTION_LABELS[key]}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Token budget</label>
+          <select
+            value={settings.tokenBudget?.maxTokens ?? 0}
+            onChange={(e) => handleBudgetChange(Number(e.target.value))}
+            disabled={disabled}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-50"
+          >
+            <option value={0}>No limit</option>
+            {budgets.map(maxTokens => (
+              <option key={maxTokens} value={maxTokens}>{maxTokens.toLocaleString()} tokens</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">If still over</label>
+          <select
+            value={settings.tokenBudget?.truncation ?? 'head-tail'}
+            onChange={(e) => settings.tokenBudget && onChange({
+              ...settings,
+              tokenBudget: { ...settings.tokenBudget, truncation: e.target.value as TruncationStrategy }
+            })}
+            disabled={disabled || !settings.tokenBudget}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-50"
+          >
+            {Object.entries(TRUNCATION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Personal data</label>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={settings.pii?.mode ?? 'off'}
+            onChange={(e) => e.target.value === 'off'
+              ? onChange({ ...settings, pii: undefined })
+              : handlePiiChange({ mode: e.target.value as RedactionMode })}
+            disabled={disabled}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-50"
+          >
+            <option value="off">Keep as is</option>
+            {Object.entries(REDACTION_MODE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={settings.pii?.locale ?? DEFAULT_PII_SETTINGS.locale}
+            onChange={(e) => handlePiiChange({ locale: e.target.value as PiiLocale })}
+            disabled={disabled || !settings.pii}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:opacity-50"
+          >
+            {Object.entries(PII_LOCALES).map(([locale, ruleSet]) => (
+              <option key={locale} value={locale}>{ruleSet.label}</option>
+            ))}
+          </select>
+        </div>
+        {settings.pii && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2">
+            {(Object.keys(PII_TYPE_LABELS) as PiiEntityType[]).map(type => (
+              <label key={type} className="flex items-center space-x-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.pii?.types.includes(type) ?? false}
+                  onChange={() => handlePiiTypeToggle(type)}
+                  disabled={disabled}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{PII_TYPE_LABELS[type]}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          Detected in the browser and replaced before tokenizing or exporting
+        </p>
+      </div>
+    </div>
+  );
+};
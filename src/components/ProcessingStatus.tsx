@@ -1,12 +1,14 @@
 import React from 'react';
-import { CheckCircle, AlertCircle, Loader2, FileText } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader2, FileText, Ban, X, RotateCcw, Zap } from 'lucide-react';
 import { ProcessingStatus as ProcessingStatusType } from '../types';
 
 interface ProcessingStatusProps {
   statuses: ProcessingStatusType[];
+  onCancel?: (statusId: string) => void;
+  onRetry?: (statusId: string) => void;
 }
 
-export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ statuses }) => {
+export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ statuses, onCancel, onRetry }) => {
   if (statuses.length === 0) return null;
 
   const getStatusIcon = (status: ProcessingStatusType['status']) => {
@@ -18,6 +20,8 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ statuses })
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case 'error':
         return <AlertCircle className="w-5 h-5 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-5 h-5 text-gray-500" />;
       default:
         return <FileText className="w-5 h-5 text-gray-500" />;
     }
@@ -65,14 +69,43 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ statuses })
               {getStatusIcon(status.status)}
               <div>
                 <p className="text-sm font-medium text-gray-900 truncate max-w-xs">
-                  {status.id}
+                  {status.label ?? status.id}
                 </p>
                 <p className="text-xs text-gray-600">{status.message}</p>
               </div>
             </div>
-            <span className="text-sm font-medium text-gray-700">
-              {Math.round(status.progress)}%
-            </span>
+            <div className="flex items-center space-x-2">
+              {status.tokensFromCache && (
+                <span
+                  className="flex items-center px-2 py-0.5 rounded border bg-white border-green-200 text-xs text-green-700"
+                  title="Tokens were loaded from the tokenization cache instead of the tokenizer backend"
+                >
+                  <Zap className="w-3 h-3 mr-1" />
+                  Cached
+                </span>
+              )}
+              <span className="text-sm font-medium text-gray-700">
+                {Math.round(status.progress)}%
+              </span>
+              {onCancel && (status.status === 'uploading' || status.status === 'extracting') && (
+                <button
+                  onClick={() => onCancel(status.id)}
+                  className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Cancel"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+              {onRetry && (status.status === 'error' || status.status === 'cancelled') && (
+                <button
+                  onClick={() => onRetry(status.id)}
+                  className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                  title="Retry"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
           </div>
           
           {/* Progress Bar */}
@@ -83,6 +116,38 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ statuses })
             ></div>
           </div>
           
+          {/* OCR Pages */}
+          {status.ocrPages && status.ocrPages.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-1 text-xs">
+              <span className="font-medium text-gray-700 mr-1">OCR:</span>
+              {status.ocrPages.map(page => (
+                <span
+                  key={page.pageNumber}
+                  className={`px-2 py-0.5 rounded border ${
+                    page.confidence < 60
+                      ? 'bg-amber-50 border-amber-200 text-amber-800'
+                      : 'bg-white border-gray-200 text-gray-700'
+                  }`}
+                  title={`Page ${page.pageNumber} recognized with ${page.confidence}% confidence`}
+                >
+                  p.{page.pageNumber} · {page.confidence}%
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Warnings */}
+          {status.warnings && status.warnings.length > 0 && (
+            <div className="mt-3 p-2 bg-amber-100 rounded text-sm text-amber-800">
+              <strong>Warning:</strong>
+              <ul className="list-disc list-inside">
+                {status.warnings.map(warning => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Error Message */}
           {status.error && (
             <div className="mt-3 p-2 bg-red-100 rounded text-sm text-red-700">
@@ -0,0 +1,390 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Loader2, Play, Save, Trash2, Upload } from 'lucide-react';
+import { ExtractedDocument, PreprocessingRule, PreprocessingRulePreset, PreprocessingRuleType, PreprocessingSettings } from '../types';
+import { BUILT_IN_RULE_PRESETS, createRule, parseRulePreset, RULE_TYPES, serializeRulePreset, traceRules } from '../utils/preprocessingRules';
+import { RulePresetStore } from '../utils/rulePresetStore';
+import { DEFAULT_PREPROCESSING, TextPreprocessor } from '../utils/textPreprocessing';
+import { downloadFile } from '../utils/download';
+
+interface RulePipelineEditorProps {
+  document: ExtractedDocument;
+  onReprocess?: (
+    document: ExtractedDocument,
+    preprocessing: PreprocessingSettings,
+    onProgress: (progress: number, message: string) => void
+  ) => Promise<void>;
+}
+
+// Characters shown in each preview pane, starting a little before the first change
+const PREVIEW_LENGTH = 3000;
+const PREVIEW_LEAD = 200;
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs';
+
+const firstDifference = (before: string, after: string): number => {
+  const length = Math.min(before.length, after.length);
+  for (let index = 0; index < length; index++) {
+    if (before[index] !== after[index]) return index;
+  }
+  return before.length === after.length ? 0 : length;
+};
+
+/**
+ * Mark every match of the rule in a slice of text
+ */
+const highlightMatches = (text: string, rule?: PreprocessingRule): React.ReactNode => {
+  if (!rule?.enabled) return text;
+  let regex: RegExp;
+  try {
+    regex = RULE_TYPES[rule.type].compile(rule).regex;
+  } catch {
+    return text;
+  }
+
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length === 0 || match.index === undefined) continue;
+    nodes.push(text.slice(position, match.index));
+    nodes.push(<mark key={match.index} className="bg-yellow-200">{match[0]}</mark>);
+    position = match.index + match[0].length;
+  }
+  nodes.push(text.slice(position));
+  return nodes;
+};
+
+export const RulePipelineEditor: React.FC<RulePipelineEditorProps> = ({ document, onReprocess }) => {
+  const settings = document.preprocessing ?? DEFAULT_PREPROCESSING;
+  const [rules, setRules] = useState<PreprocessingRule[]>(settings.rules ?? []);
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+  const [savedPresets, setSavedPresets] = useState<PreprocessingRulePreset[]>(() => RulePresetStore.getInstance().list());
+  const [presetName, setPresetName] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [progressMessage, setProgressMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // The text the rules start from: the document with boilerplate removed, before the
+  // profile collapses its whitespace. Redaction runs later, so the preview stays local.
+  const baseText = useMemo(
+    () => TextPreprocessor.getInstance().prepareForRules(document.extractedText, settings, document.pages).text,
+    [document.extractedText, document.pages, settings]
+  );
+
+  // Large documents make tracing slow, so typing stays ahead of the preview
+  const previewRules = useDeferredValue(rules);
+  const steps = useMemo(() => traceRules(baseText, previewRules), [baseText, previewRules]);
+
+  const selectedIndex = steps.findIndex(step => step.rule.id === selectedRuleId);
+  const selectedStep = selectedIndex >= 0 ? steps[selectedIndex] : undefined;
+  const before = selectedIndex > 0 ? steps[selectedIndex - 1].output : baseText;
+  const after = selectedStep?.output ?? steps[steps.length - 1]?.output ?? baseText;
+  const previewStart = Math.max(0, firstDifference(before, after) - PREVIEW_LEAD);
+
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(settings.rules ?? []);
+
+  const updateRule = (id: string, changes: Partial<PreprocessingRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setRules(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = (type: PreprocessingRuleType) => {
+    const rule = createRule(type);
+    setRules(prev => [...prev, rule]);
+    setSelectedRuleId(rule.id);
+  };
+
+  const loadPreset = (preset: PreprocessingRulePreset) => {
+    // Fresh ids, so a preset loaded twice does not share rules
+    setRules(preset.rules.map(rule => createRule(rule.type, rule)));
+    setPresetName(preset.name);
+    setSelectedRuleId(null);
+    setError(null);
+  };
+
+  const handlePresetSelect = (value: string) => {
+    const separator = value.indexOf(':');
+    const source = value.slice(0, separator);
+    const name = value.slice(separator + 1);
+    const preset = (source === 'builtin' ? BUILT_IN_RULE_PRESETS : savedPresets).find(candidate => candidate.name === name);
+    if (preset) loadPreset(preset);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      const store = RulePresetStore.getInstance();
+      store.save({ name, rules });
+      setSavedPresets(store.list());
+      setError(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save the preset.');
+    }
+  };
+
+  const handleDeletePreset = () => {
+    const store = RulePresetStore.getInstance();
+    store.delete(presetName.trim());
+    setSavedPresets(store.list());
+  };
+
+  const handleExport = () => {
+    const name = presetName.trim() || 'preprocessing-rules';
+    downloadFile(serializeRulePreset({ name, rules }), `${name}.rules.json`, 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadPreset(parseRulePreset(await file.text()));
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to import the preset.');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!onReprocess) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await onReprocess(document, { ...settings, rules }, (_, message) => setProgressMessage(message));
+    } catch (applyError) {
+      console.error(`Failed to apply rules to ${document.fileName}:`, applyError);
+      setError(applyError instanceof Error ? applyError.message : 'Failed to apply the rules.');
+    } finally {
+      setIsApplying(false);
+      setProgressMessage('');
+    }
+  };
+
+  const isSavedPreset = savedPresets.some(preset => preset.name === presetName.trim());
+
+  return (
+    <div className="space-y-4">
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => handlePresetSelect(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="" disabled>Load preset...</option>
+          <optgroup label="Built in">
+            {BUILT_IN_RULE_PRESETS.map(preset => (
+              <option key={preset.name} value={`builtin:${preset.name}`}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {savedPresets.length > 0 && (
+            <optgroup label="Saved">
+              {savedPresets.map(preset => (
+                <option key={preset.name} value={`saved:${preset.name}`}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className={`${inputClassName} w-40`}
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+          className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Save preset"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+        {isSavedPreset && (
+          <button
+            onClick={handleDeletePreset}
+            className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+            title="Delete saved preset"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={rules.length === 0}
+          className="p-1 text-gray-400 hover:text-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Export as JSON"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+        <label className="p-1 text-gray-400 hover:text-gray-700 transition-colors cursor-pointer" title="Import JSON preset">
+          <Upload className="w-4 h-4" />
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Rule List */}
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No rules yet. Rules run in order on the extracted text, before whitespace is cleaned up.
+            </p>
+          )}
+          <ol className="space-y-2">
+            {rules.map((rule, index) => {
+              const definition = RULE_TYPES[rule.type];
+              const step = steps.find(candidate => candidate.rule.id === rule.id);
+              return (
+                <li
+                  key={rule.id}
+                  onClick={() => setSelectedRuleId(rule.id)}
+                  className={`p-2 border rounded-md space-y-1 cursor-pointer ${
+                    selectedRuleId === rule.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+                  } ${rule.enabled ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    />
+                    <select
+                      value={rule.type}
+                      onChange={(e) => updateRule(rule.id, { type: e.target.value as PreprocessingRuleType })}
+                      className={`${inputClassName} flex-1 min-w-0`}
+                      title={definition.description}
+                    >
+                      {Object.entries(RULE_TYPES).map(([type, { label }]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
+                    {step && !step.error && rule.enabled && (
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {step.matches.toLocaleString()} match{step.matches === 1 ? '' : 'es'}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => setRules(prev => prev.filter(candidate => candidate.id !== rule.id))}
+                      className="p-0.5 text-gray-400 hover:text-red-500"
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  {rule.note && (
+                    <p className="text-xs text-gray-600">{rule.note}</p>
+                  )}
+                  {definition.usesPattern && (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={rule.pattern ?? ''}
+                        onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                        placeholder="Regular expression"
+                        className={`${inputClassName} flex-1 min-w-0 font-mono`}
+                      />
+                      <input
+                        type="text"
+                        value={rule.flags ?? ''}
+                        onChange={(e) => updateRule(rule.id, { flags: e.target.value })}
+                        placeholder="flags"
+                        className={`${inputClassName} w-14 font-mono`}
+                        title="i: ignore case, m: ^ and $ match at lines, s: . matches newlines, u: Unicode"
+                      />
+                    </div>
+                  )}
+                  {definition.usesReplacement && (
+                    <input
+                      type="text"
+                      value={rule.replacement ?? ''}
+                      onChange={(e) => updateRule(rule.id, { replacement: e.target.value })}
+                      placeholder="Replacement"
+                      className={`${inputClassName} w-full font-mono`}
+                    />
+                  )}
+                  {step?.error && (
+                    <p className="text-xs text-red-600">{step.error}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          <div className="flex items-center justify-between">
+            <select
+              value=""
+              onChange={(e) => addRule(e.target.value as PreprocessingRuleType)}
+              className={inputClassName}
+            >
+              <option value="" disabled>Add rule...</option>
+              {Object.entries(RULE_TYPES).map(([type, { label }]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleApply}
+              disabled={!onReprocess || isApplying || !isDirty}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              <span>{isApplying ? progressMessage || 'Applying...' : 'Apply to document'}</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-2">
+          <p className="text-xs text-gray-600">
+            {selectedStep
+              ? `Rule ${selectedIndex + 1}: ${RULE_TYPES[selectedStep.rule.type].label}`
+              : 'All rules'}
+            {' • '}{after.length >= before.length ? '+' : ''}{(after.length - before.length).toLocaleString()} characters
+          </p>
+          <div>
+            <h6 className="text-xs font-medium text-gray-700 mb-1">Before</h6>
+            <div className="text-xs text-gray-700 font-mono whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded p-2 max-h-60 overflow-y-auto">
+              {highlightMatches(before.slice(previewStart, previewStart + PREVIEW_LENGTH), selectedStep?.rule)}
+            </div>
+          </div>
+          <div>
+            <h6 className="text-xs font-medium text-gray-700 mb-1">After</h6>
+            <div className="text-xs text-gray-700 font-mono whitespace-pre-wrap bg-green-50 border border-green-200 rounded p-2 max-h-60 overflow-y-auto">
+              {after.slice(previewStart, previewStart + PREVIEW_LENGTH)}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
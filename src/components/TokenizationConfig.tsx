@@ -1,28 +1,101 @@
-import React, { useState, useEffect } from 'react';
-import { Settings, TestTube, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Settings, TestTube, CheckCircle, XCircle, Loader2, Upload, Trash2 } from 'lucide-react';
 import { TokenizationService } from '../utils/tokenization';
+import { TokenizationCache, TokenizationCacheStats } from '../utils/tokenizationCache';
+import { TokenizerBackendRegistry, BackendField } from '../utils/tokenizerBackends';
+import { LocalTokenizerClient } from '../utils/localTokenizerClient';
+import { LocalTokenizerInfo } from '../utils/localTokenizer';
 import { TokenizationConfigType } from '../types';
 
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm';
+
 export const TokenizationConfig: React.FC = () => {
-  const [config, setConfig] = useState<TokenizationConfigType>({
-    modelName: 'gpt-oss-120b',
-    azureFunctionUrl: '',
-    apiKey: ''
-  });
+  const [config, setConfig] = useState<TokenizationConfigType>(TokenizationService.getDefaultConfig);
   const [isOpen, setIsOpen] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<'success' | 'error' | null>(null);
   const [testMessage, setTestMessage] = useState('');
+  const [localTokenizers, setLocalTokenizers] = useState<LocalTokenizerInfo[]>([]);
+  const [isLoadingTokenizer, setIsLoadingTokenizer] = useState(false);
+  const [cacheStats, setCacheStats] = useState<TokenizationCacheStats | null>(null);
+
+  const registry = TokenizerBackendRegistry.getInstance();
+  const backend = registry.get(config.backend);
+  const settings = config.backendSettings[config.backend] || {};
+  const missingRequired = backend.fields.some(field => field.required && !settings[field.key]?.trim());
 
   useEffect(() => {
     // Load current configuration
     const tokenizer = TokenizationService.getInstance();
     setConfig(tokenizer.getConfig());
+    setLocalTokenizers(LocalTokenizerClient.getInstance().getLoadedTokenizers());
+  }, []);
+
+  const refreshCacheStats = useCallback(async () => {
+    try {
+      setCacheStats(await TokenizationCache.getInstance().getStats());
+    } catch (cacheError) {
+      console.warn('Failed to read tokenization cache:', cacheError);
+      setCacheStats(null);
+    }
   }, []);
 
+  useEffect(() => {
+    if (isOpen) refreshCacheStats();
+  }, [isOpen, refreshCacheStats]);
+
+  const updateSetting = (key: string, value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      backendSettings: {
+        ...prev.backendSettings,
+        [prev.backend]: { ...prev.backendSettings[prev.backend], [key]: value }
+      }
+    }));
+  };
+
+  const handleBackendChange = (backendId: string) => {
+    const nextBackend = registry.get(backendId);
+    setConfig(prev => {
+      // Local backends pick from loaded tokenizers, so select one if the current model is not loaded
+      if (nextBackend.modelSource === 'local-tokenizers' && !localTokenizers.some(info => info.id === prev.modelName)) {
+        return { ...prev, backend: backendId, modelName: localTokenizers[0]?.id || '' };
+      }
+      return { ...prev, backend: backendId };
+    });
+    setTestResult(null);
+    setTestMessage('');
+  };
+
+  const handleTokenizerFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoadingTokenizer(true);
+    setTestResult(null);
+
+    try {
+      const client = LocalTokenizerClient.getInstance();
+      const info = await client.loadFromFile(file);
+      setLocalTokenizers(client.getLoadedTokenizers());
+      setConfig(prev => ({ ...prev, modelName: info.id ?? info.name }));
+      setTestResult('success');
+      setTestMessage(`Loaded ${info.id} (${info.kind.toUpperCase()}, ${info.vocabSize.toLocaleString()} tokens).`);
+    } catch (error) {
+      setTestResult('error');
+      setTestMessage(error instanceof Error ? error.message : 'Failed to load tokenizer file');
+    } finally {
+      setIsLoadingTokenizer(false);
+    }
+  };
+
   const handleSave = () => {
     const tokenizer = TokenizationService.getInstance();
-    tokenizer.updateConfig(config);
+    tokenizer.updateConfig({
+      ...config,
+      comparisonModels: config.comparisonModels.map(name => name.trim()).filter(name => name.length > 0)
+    });
     setIsOpen(false);
     setTestResult(null);
   };
@@ -36,15 +109,17 @@ export const TokenizationConfig: React.FC = () => {
       // Temporarily update config for testing
       const tokenizer = TokenizationService.getInstance();
       tokenizer.updateConfig(config);
-      
+
       const success = await tokenizer.testConnection();
-      
+
       if (success) {
         setTestResult('success');
         setTestMessage('Connection successful! Tokenizer is ready to use.');
       } else {
         setTestResult('error');
-        setTestMessage('Connection failed. Please check your configuration.');
+        setTestMessage(backend.modelSource === 'local-tokenizers'
+          ? 'No local tokenizer loaded. Please load a tokenizer file.'
+          : 'Connection failed. Please check your configuration.');
       }
     } catch (error) {
       setTestResult('error');
@@ -54,16 +129,60 @@ export const TokenizationConfig: React.FC = () => {
     }
   };
 
+  const handleClearCache = async () => {
+    try {
+      await TokenizationCache.getInstance().clear();
+    } catch (cacheError) {
+      console.error('Failed to clear tokenization cache:', cacheError);
+    }
+    refreshCacheStats();
+  };
+
   const handleReset = () => {
-    setConfig({
-      modelName: 'gpt-oss-120b',
-      azureFunctionUrl: '',
-      apiKey: ''
-    });
+    setConfig(TokenizationService.getDefaultConfig());
     setTestResult(null);
     setTestMessage('');
   };
 
+  const renderField = (field: BackendField) => {
+    const value = settings[field.key] ?? '';
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            value={value}
+            onChange={(e) => updateSetting(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            rows={2}
+            className={`${inputClassName} font-mono`}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            value={value}
+            onChange={(e) => updateSetting(field.key, e.target.value)}
+            className={inputClassName}
+          >
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type={field.type}
+            value={value}
+            onChange={(e) => updateSetting(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
   return (
     <div className="relative">
       <button
@@ -80,67 +199,135 @@ export const TokenizationConfig: React.FC = () => {
           <div className="p-4 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900">Tokenization Configuration</h3>
             <p className="text-sm text-gray-600 mt-1">
-              Your Azure Function is public and doesn't require authentication
+              {backend.description}
             </p>
           </div>
 
-          <div className="p-4 space-y-4">
-            {/* Model Name */}
+          <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            {/* Backend */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Model Name
+                Tokenizer Backend
               </label>
-              <input
-                type="text"
-                value={config.modelName}
-                onChange={(e) => setConfig(prev => ({ ...prev, modelName: e.target.value }))}
-                placeholder="e.g., gpt-oss-120b"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Hugging Face model name for tokenization
-              </p>
+              <select
+                value={config.backend}
+                onChange={(e) => handleBackendChange(e.target.value)}
+                className={inputClassName}
+              >
+                {registry.list().map(definition => (
+                  <option key={definition.id} value={definition.id}>{definition.label}</option>
+                ))}
+              </select>
             </div>
 
-            {/* Azure Function URL */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Azure Function URL
-              </label>
-              <input
-                type="url"
-                value={config.azureFunctionUrl}
-                onChange={(e) => setConfig(prev => ({ ...prev, azureFunctionUrl: e.target.value }))}
-                placeholder="https://your-function-app.azurewebsites.net/api/tokenize"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Your Azure Function endpoint URL
-              </p>
-            </div>
+            {backend.modelSource === 'local-tokenizers' ? (
+              <>
+                {/* Local Tokenizer File */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tokenizer File
+                  </label>
+                  <label className={`flex items-center justify-center space-x-2 px-3 py-2 border border-dashed border-gray-300 rounded-md text-sm text-gray-600 hover:border-gray-400 hover:bg-gray-50 transition-colors ${
+                    isLoadingTokenizer ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                  }`}>
+                    {isLoadingTokenizer ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4" />
+                    )}
+                    <span>{isLoadingTokenizer ? 'Loading tokenizer...' : 'Load tokenizer.json or .tiktoken'}</span>
+                    <input
+                      type="file"
+                      accept=".json,.tiktoken,.txt"
+                      onChange={handleTokenizerFile}
+                      disabled={isLoadingTokenizer}
+                      className="hidden"
+                    />
+                  </label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Hugging Face tokenizer.json (BPE or WordPiece) or a tiktoken rank file
+                  </p>
+                </div>
+
+                {/* Loaded Tokenizers */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Active Tokenizer
+                  </label>
+                  <select
+                    value={config.modelName}
+                    onChange={(e) => setConfig(prev => ({ ...prev, modelName: e.target.value }))}
+                    disabled={localTokenizers.length === 0}
+                    className={`${inputClassName} disabled:bg-gray-50`}
+                  >
+                    {localTokenizers.length === 0 && <option value="">No tokenizer loaded</option>}
+                    {localTokenizers.map(info => (
+                      <option key={info.id} value={info.id}>
+                        {info.id} ({info.kind}, {info.vocabSize.toLocaleString()} tokens)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            ) : (
+              /* Model Name */
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Model Name
+                </label>
+                <input
+                  type="text"
+                  value={config.modelName}
+                  onChange={(e) => setConfig(prev => ({ ...prev, modelName: e.target.value }))}
+                  placeholder={backend.modelPlaceholder}
+                  className={inputClassName}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Hugging Face model name for tokenization
+                </p>
+              </div>
+            )}
 
-            {/* API Key */}
+            {/* Comparison Models */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                API Key (Optional)
+                Comparison Models
               </label>
               <input
-                type="password"
-                value={config.apiKey || ''}
-                onChange={(e) => setConfig(prev => ({ ...prev, apiKey: e.target.value }))}
-                placeholder="Enter API key if required"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                type="text"
+                value={config.comparisonModels.join(', ')}
+                onChange={(e) => setConfig(prev => ({
+                  ...prev,
+                  comparisonModels: e.target.value.split(',').map(name => name.trimStart())
+                }))}
+                placeholder={backend.modelSource === 'local-tokenizers' ? 'Loaded tokenizers, e.g. tokenizer@1a2b3c4d5e6f' : 'e.g., gpt2, bert-base-uncased'}
+                className={inputClassName}
               />
               <p className="text-xs text-gray-500 mt-1">
-                Authentication key for your Azure Function
+                Comma-separated models offered in the "Compare" view
               </p>
             </div>
 
+            {/* Backend Settings */}
+            {backend.fields.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}
+                </label>
+                {renderField(field)}
+                {field.description && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {field.description}
+                  </p>
+                )}
+              </div>
+            ))}
+
             {/* Test Connection */}
             <div className="pt-2">
               <button
                 onClick={handleTest}
-                disabled={isTesting || !config.azureFunctionUrl}
+                disabled={isTesting || missingRequired}
                 className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isTesting ? (
@@ -148,13 +335,13 @@ export const TokenizationConfig: React.FC = () => {
                 ) : (
                   <TestTube className="w-4 h-4" />
                 )}
-                <span>{isTesting ? 'Testing...' : 'Test Connection'}</span>
+                <span>{isTesting ? 'Testing...' : backend.modelSource === 'local-tokenizers' ? 'Check Tokenizer' : 'Test Connection'}</span>
               </button>
 
               {testResult && (
                 <div className={`mt-2 p-2 rounded-md text-sm flex items-start space-x-2 ${
-                  testResult === 'success' 
-                    ? 'bg-green-50 text-green-700 border border-green-200' 
+                  testResult === 'success'
+                    ? 'bg-green-50 text-green-700 border border-green-200'
                     : 'bg-red-50 text-red-700 border border-red-200'
                 }`}>
                   {testResult === 'success' ? (
@@ -166,6 +353,23 @@ export const TokenizationConfig: React.FC = () => {
                 </div>
               )}
             </div>
+
+            {/* Tokenization Cache */}
+            {cacheStats && (
+              <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+                <p className="text-xs text-gray-500">
+                  Cache: {cacheStats.entries} result{cacheStats.entries === 1 ? '' : 's'}, {cacheStats.tokens.toLocaleString()} tokens
+                </p>
+                <button
+                  onClick={handleClearCache}
+                  disabled={cacheStats.entries === 0}
+                  className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-gray-600 hover:text-red-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Clear cache</span>
+                </button>
+              </div>
+            )}
           </div>
 
           <div className="p-4 border-t border-gray-200 flex justify-between">
@@ -194,4 +398,4 @@ export const TokenizationConfig: React.FC = () => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,56 +1,308 @@
 export interface UploadedFile {
+  // SHA-256 of the content, so the same file is recognized however it is added
   id: string;
   name: string;
   size: number;
   type: string;
   lastModified: number;
   file: File;
+  // Type sniffed from the file's content when it was added
+  detection?: FileTypeDetection;
+  // Character encoding chosen by the user for a text file; detected when unset
+  encoding?: string;
+}
+
+export interface FileTypeDetection {
+  // Format the content identifies; undefined when the content is unrecognized binary
+  detectedFormat?: string;
+  // Format the extension or declared MIME type implies
+  declaredFormat?: string;
+  // Format the file will be processed as: an extractor id or ARCHIVE_FORMAT
+  format?: string;
+  // Explains a disagreement between the declared and detected types
+  warning?: string;
 }
 
 export interface ExtractedDocument {
   id: string;
+  // Id of the upload the document came from; archives yield several documents per upload
+  sourceId?: string;
   fileName: string;
   fileType: string;
   extractedText: string;
   preprocessedText?: string;
+  // Structure-preserving Markdown rendering, when the source format has structure
+  markdownText?: string;
   tokenizedData?: TokenizedData;
+  modelComparisons?: TokenizedData[];
+  chunks?: DocumentChunk[];
+  chunkingOptions?: ChunkingOptions;
+  // Settings preprocessedText was produced with
+  preprocessing?: PreprocessingSettings;
+  // Personal data replaced in preprocessedText, for review; originals never leave the browser
+  piiReplacements?: PiiReplacement[];
+  pages?: DocumentPage[];
+  tables?: DocumentTable[];
   wordCount: number;
   extractedAt: Date;
-  metadata?: {
-    pageCount?: number;
-    author?: string;
-    title?: string;
-    subject?: string;
-    keywords?: string;
-    preprocessingStats?: {
-      originalWordCount: number;
-      processedWordCount: number;
-      originalLineCount: number;
-      processedLineCount: number;
-      compressionRatio: number;
-      structureImprovement: number;
-    };
+  metadata?: DocumentMetadata;
+}
+
+export interface DocumentMetadata {
+  pageCount?: number;
+  author?: string;
+  title?: string;
+  subject?: string;
+  keywords?: string;
+  // Application that created the original document
+  creator?: string;
+  // Application that produced the file (e.g. the PDF converter)
+  producer?: string;
+  // ISO 8601 timestamps from the document properties
+  createdAt?: string;
+  modifiedAt?: string;
+  // Character encoding the text was decoded with (text-based formats)
+  encoding?: string;
+  // Pages whose text came from OCR because the text layer was missing or too sparse
+  ocrPages?: OcrPageResult[];
+  // Location inside the uploaded ZIP archive the document was unpacked from
+  archivePath?: string;
+  preprocessingStats?: {
+    originalWordCount: number;
+    processedWordCount: number;
+    originalLineCount: number;
+    processedLineCount: number;
+    compressionRatio: number;
+    structureImprovement: number;
+    // Present when boilerplate removal ran
+    boilerplate?: BoilerplateReport;
+    // Present when the text was compressed to a token budget
+    budget?: TokenBudgetReport;
+    // Present when personal data was redacted
+    pii?: PiiSummary;
   };
 }
 
+export interface OcrPageResult {
+  pageNumber: number;
+  // Mean word confidence, 0-100
+  confidence: number;
+}
+
+// Document properties read from the file itself
+export type DocumentProperties = Omit<DocumentMetadata, 'preprocessingStats' | 'ocrPages' | 'archivePath'>;
+
+// Page boundaries as character offsets into extractedText
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+  charStart: number;
+  charEnd: number;
+  columnCount?: number;
+  // Lines in the top and bottom margins, when the format has a page layout
+  edgeLines?: PageLine[];
+}
+
+export interface PageLine {
+  text: string;
+  // Vertical position as a share of the page height, 0 at the top
+  top: number;
+}
+
+export interface RemovedBoilerplate {
+  // The line as it first appeared
+  text: string;
+  pageCount: number;
+  position: 'header' | 'footer';
+}
+
+export interface BoilerplateReport {
+  removed: RemovedBoilerplate[];
+  removedLines: number;
+  removedCharacters: number;
+}
+
+export interface DocumentTable {
+  index: number;
+  // Page the table was found on (PDF only)
+  pageNumber?: number;
+  // Cell text, first row is the header
+  rows: string[][];
+  markdown: string;
+}
+
+export interface ExtractionResult {
+  text: string;
+  markdown?: string;
+  pages?: DocumentPage[];
+  tables?: DocumentTable[];
+  properties?: DocumentProperties;
+  ocrPages?: OcrPageResult[];
+  warnings?: string[];
+}
+
 export interface TokenizedData {
   tokens: string[];
   tokenIds: number[];
   tokenCount: number;
   modelName: string;
   tokenizedAt: Date;
+  // Served from the tokenization cache instead of the backend
+  fromCache?: boolean;
+}
+
+export type PreprocessingProfileId = 'generic' | 'grant' | 'form' | 'custom';
+
+export interface PreprocessingOptions {
+  // Keep line breaks when normalizing whitespace
+  preserveOriginalStructure?: boolean;
+  addFieldMarkers?: boolean;
+  addHeaderMarkers?: boolean;
+  normalizeWhitespace?: boolean;
+  // Break before grant section titles and numbered or lettered sections
+  addGrantSectionMarkers?: boolean;
+  // Put checkbox items and signature lines on their own lines
+  addFormMarkers?: boolean;
+  // Drop running headers, footers and page numbers repeated across pages
+  removeBoilerplate?: boolean;
+}
+
+export type PreprocessingRuleType =
+  | 'replace'
+  | 'strip'
+  | 'remove-lines'
+  | 'insert-break'
+  | 'collapse-whitespace'
+  | 'trim-lines';
+
+export interface PreprocessingRule {
+  id: string;
+  type: PreprocessingRuleType;
+  enabled: boolean;
+  // Regular expression source, for rule types that match a pattern
+  pattern?: string;
+  // Regular expression flags other than 'g', which is always set
+  flags?: string;
+  // Replacement for 'replace' rules; may refer to groups as $1, $2...
+  replacement?: string;
+  note?: string;
+}
+
+export interface PreprocessingRulePreset {
+  name: string;
+  rules: PreprocessingRule[];
 }
 
+export type TruncationStrategy = 'head-tail' | 'head' | 'none';
+
+export interface TokenBudget {
+  maxTokens: number;
+  // How to cut the text when the other reductions are not enough
+  truncation: TruncationStrategy;
+}
+
+export type TokenBudgetStep = 'boilerplate' | 'normalize' | 'sections' | 'truncate';
+
+export interface TokenBudgetStepReport {
+  step: TokenBudgetStep;
+  tokensBefore: number;
+  tokensAfter: number;
+  // What the step cut, in a few words per item
+  removed: string[];
+}
+
+export interface TokenBudgetReport {
+  maxTokens: number;
+  initialTokens: number;
+  finalTokens: number;
+  steps: TokenBudgetStepReport[];
+  // Counts are estimated from the text length when the tokenizer is unavailable
+  estimated?: boolean;
+}
+
+export type PiiEntityType = 'name' | 'email' | 'phone' | 'iban' | 'address' | 'national-id';
+
+export type PiiLocale = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR';
+
+export type RedactionMode = 'redact' | 'mask' | 'pseudonymize';
+
+export interface PiiSettings {
+  // Rule set for phone numbers, addresses, national IDs and name cues
+  locale: PiiLocale;
+  mode: RedactionMode;
+  types: PiiEntityType[];
+}
+
+export interface PiiReplacement {
+  type: PiiEntityType;
+  // The personal data as first found
+  value: string;
+  replacement: string;
+  // Occurrences replaced
+  count: number;
+}
+
+export interface PiiSummary {
+  entityCount: number;
+  byType: Partial<Record<PiiEntityType, number>>;
+}
+
+export interface PreprocessingSettings {
+  profile: PreprocessingProfileId;
+  // The options in effect; a named profile's own options unless the profile is custom
+  options: PreprocessingOptions;
+  // Applied in order to the preprocessed text
+  rules?: PreprocessingRule[];
+  // Replace personal data after the rules, so it is never tokenized or exported
+  pii?: PiiSettings;
+  // Reduce the text until it fits, after the rules
+  tokenBudget?: TokenBudget;
+}
+
+export type ChunkingStrategy = 'headers' | 'fields' | 'paragraphs' | 'tokens';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  fileName: string;
+  index: number;
+  text: string;
+  charStart: number;
+  charEnd: number;
+  tokenStart: number;
+  tokenEnd: number;
+  tokenCount: number;
+  tokenCountEstimated: boolean;
+  heading?: string;
+}
+
+export type TokenizerBackendSettings = Record<string, string>;
+
 export interface TokenizationConfigType {
+  backend: string;
   modelName: string;
-  azureFunctionUrl: string;
-  apiKey?: string;
+  comparisonModels: string[];
+  backendSettings: Record<string, TokenizerBackendSettings>;
 }
 
 export interface ProcessingStatus {
   id: string;
-  status: 'uploading' | 'extracting' | 'completed' | 'error';
+  // File name, or path inside an archive, shown for the status; the id when unset
+  label?: string;
+  status: 'uploading' | 'extracting' | 'completed' | 'error' | 'cancelled';
+  // Id of the upload the status belongs to
+  sourceId?: string;
   progress: number;
   message: string;
   error?: string;
+  ocrPages?: OcrPageResult[];
+  warnings?: string[];
+  // Tokens came from the tokenization cache
+  tokensFromCache?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,181 @@
+import type JSZip from 'jszip';
+import { isArchiveFile, MAX_FILE_SIZE, validateFile } from './fileValidation';
+import { FormatExtractorRegistry } from './formatExtractors';
+
+/**
+ * ZIP archive expansion
+ * Unpacks uploaded archives in the browser into the documents they contain,
+ * following nested archives. Sizes are counted while decompressing rather than
+ * trusted from the archive headers, so zip bombs stop at the limits below.
+ */
+
+// Archives inside archives inside the upload, at most
+const MAX_ARCHIVE_DEPTH = 3;
+const MAX_ARCHIVE_ENTRIES = 500;
+// Uncompressed bytes across all entries of one upload
+const MAX_TOTAL_SIZE = 250 * 1024 * 1024;
+
+// Folders and files added by operating systems rather than by the user
+const SYSTEM_ENTRY = /(^|\/)(__MACOSX\/|\.[^/]*$|Thumbs\.db$|desktop\.ini$)/i;
+
+export interface ArchiveEntry {
+  file: File;
+  // Path from the uploaded archive down to the entry ("submission.zip/letters/support.pdf")
+  archivePath: string;
+}
+
+export interface ArchiveExpansion {
+  entries: ArchiveEntry[];
+  // Entries that were not unpacked, with the reason
+  skipped: string[];
+}
+
+// JSZip's typings leave out internalStream, the streaming reader behind async()
+type StreamingEntry = JSZip.JSZipObject & {
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+interface ExpansionBudget {
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Decompress one entry, giving up as soon as it exceeds the byte limit
+ */
+const readEntry = (entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let settled = false;
+
+    const stream = (entry as StreamingEntry).internalStream('uint8array');
+    stream
+      .on('data', chunk => {
+        if (settled) return;
+        size += chunk.length;
+        if (size > limit) {
+          settled = true;
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', error => {
+        if (settled) return;
+        settled = true;
+        reject(error);
+      })
+      .on('end', () => {
+        if (settled) return;
+        settled = true;
+        const data = new Uint8Array(size);
+        let position = 0;
+        chunks.forEach(chunk => {
+          data.set(chunk, position);
+          position += chunk.length;
+        });
+        resolve(data);
+      })
+      .resume();
+  });
+
+const expandInto = async (
+  archive: Blob,
+  archivePath: string,
+  depth: number,
+  budget: ExpansionBudget,
+  result: ArchiveExpansion,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(archive);
+  const entries = Object.values(zip.files)
+    .filter(entry => !entry.dir && !SYSTEM_ENTRY.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    signal?.throwIfAborted();
+    const entryPath = `${archivePath}/${entry.name.replace(/^\/+/, '')}`;
+    const fileName = entry.name.split('/').pop() ?? entry.name;
+    const nested = isArchiveFile({ name: fileName, type: '' });
+
+    if (budget.entries >= MAX_ARCHIVE_ENTRIES) {
+      result.skipped.push(`${archivePath}: stopped after ${MAX_ARCHIVE_ENTRIES} entries`);
+      return;
+    }
+    if (nested && depth >= MAX_ARCHIVE_DEPTH) {
+      result.skipped.push(`${entryPath}: archives nested more than ${MAX_ARCHIVE_DEPTH} levels deep are not unpacked`);
+      continue;
+    }
+    // Check the type before decompressing anything
+    if (!nested && !FormatExtractorRegistry.getInstance().resolve({ name: fileName, type: '' })) {
+      result.skipped.push(`${entryPath}: unsupported file type`);
+      continue;
+    }
+
+    budget.entries++;
+    onProgress?.(`Unpacking ${entryPath}...`);
+
+    const limit = Math.min(MAX_FILE_SIZE, MAX_TOTAL_SIZE - budget.bytes);
+    let data: Uint8Array | null;
+    try {
+      data = await readEntry(entry, limit);
+    } catch (error) {
+      console.warn(`Failed to unpack ${entryPath}:`, error);
+      result.skipped.push(`${entryPath}: could not be unpacked (encrypted or corrupted)`);
+      continue;
+    }
+
+    if (!data) {
+      result.skipped.push(limit < MAX_FILE_SIZE
+        ? `${entryPath}: archive contents exceed ${MAX_TOTAL_SIZE / (1024 * 1024)}MB uncompressed`
+        : `${entryPath}: larger than ${MAX_FILE_SIZE / (1024 * 1024)}MB uncompressed`);
+      continue;
+    }
+    budget.bytes += data.length;
+
+    const file = new File([data], fileName, { lastModified: entry.date.getTime() });
+    if (nested) {
+      try {
+        await expandInto(file, entryPath, depth + 1, budget, result, onProgress, signal);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(`Failed to open nested archive ${entryPath}:`, error);
+        result.skipped.push(`${entryPath}: not a readable ZIP archive`);
+      }
+      continue;
+    }
+
+    const validation = validateFile(file);
+    if (!validation.isValid) {
+      result.skipped.push(`${entryPath}: ${validation.error}`);
+      continue;
+    }
+    result.entries.push({ file, archivePath: entryPath });
+  }
+};
+
+/**
+ * Unpack every supported document in a ZIP archive, including archives nested
+ * inside it, in path order
+ */
+export const expandArchive = async (
+  archive: File,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ArchiveExpansion> => {
+  const result: ArchiveExpansion = { entries: [], skipped: [] };
+  try {
+    await expandInto(archive, archive.name, 1, { entries: 0, bytes: 0 }, result, onProgress, signal);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error('Archive expansion error:', error);
+    throw new Error('Failed to open ZIP archive. Please ensure the file is not corrupted or password-protected.');
+  }
+  return result;
+};
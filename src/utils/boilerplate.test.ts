@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { removeBoilerplate } from './boilerplate';
+import { DocumentPage } from '../types';
+
+const buildPages = (pageTexts: Array<{ lines: string[]; edgeLines: DocumentPage['edgeLines'] }>) => {
+  let text = '';
+  const pages: DocumentPage[] = pageTexts.map(({ lines, edgeLines }, index) => {
+    if (text) text += '\n\n';
+    const pageText = lines.join('\n');
+    const charStart = text.length;
+    text += pageText;
+    return { pageNumber: index + 1, text: pageText, charStart, charEnd: text.length, edgeLines };
+  });
+  return { text, pages };
+};
+
+describe('removeBoilerplate', () => {
+  it('keeps body lines that repeat the running header', () => {
+    const { text, pages } = buildPages([1, 2, 3].map(n => ({
+      lines: ['Annual Report', `Body of page ${n}.`, 'Annual Report', 'More body text.', `Page ${n} of 3`],
+      edgeLines: [
+        { text: 'Annual Report', top: 0.03 },
+        { text: `Page ${n} of 3`, top: 0.96 }
+      ]
+    })));
+
+    const result = removeBoilerplate(text, pages);
+
+    expect(result.report.removedLines).toBe(6);
+    expect(result.text.split('\n\n')).toEqual([1, 2, 3].map(n =>
+      `Body of page ${n}.\nAnnual Report\nMore body text.`
+    ));
+  });
+});
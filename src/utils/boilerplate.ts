@@ -0,0 +1,131 @@
+import { BoilerplateReport, DocumentPage, PageLine, RemovedBoilerplate } from '../types';
+
+/**
+ * Boilerplate removal
+ * Finds lines repeated across pages, such as running headers, footers,
+ * confidentiality notices and "Page N of M", and removes them from the text.
+ * Page layout positions are used when the extractor provides them; otherwise
+ * the first and last lines of each page are the candidates.
+ */
+
+// Share of the page height, at the top and bottom, where running headers and footers sit
+const EDGE_BAND = 0.12;
+// Lines checked at each end of a page without position information
+const EDGE_LINE_COUNT = 3;
+// Share of pages a line must appear on to count as boilerplate
+const MIN_PAGE_SHARE = 0.5;
+// Longer lines are body text, even when repeated
+const MAX_LINE_LENGTH = 200;
+
+interface Candidate {
+  // Index of the line in the page text
+  lineIndex: number;
+  key: string;
+  position: RemovedBoilerplate['position'];
+}
+
+/**
+ * Lines in the top and bottom margins of a laid-out page, for the pages of
+ * an ExtractionResult
+ */
+export const findEdgeLines = (lines: Array<{ text: string; top: number }>, pageHeight: number): PageLine[] =>
+  lines
+    .map(line => ({ text: line.text, top: pageHeight > 0 ? line.top / pageHeight : 0 }))
+    .filter(line => line.text.trim().length > 0 && (line.top < EDGE_BAND || line.top > 1 - EDGE_BAND));
+
+/**
+ * Compare lines regardless of case, spacing and numbers, so "Page 3 of 10"
+ * and "Page 4 of 10" are the same line
+ */
+const lineKey = (line: string): string =>
+  line.trim().replace(/\s+/g, ' ').toLowerCase().replace(/\d+/g, '#');
+
+const findCandidates = (page: DocumentPage): Candidate[] => {
+  const lines = page.text.split('\n');
+  const nonEmpty = lines.map((line, lineIndex) => ({ line, lineIndex })).filter(({ line }) => line.trim().length > 0);
+
+  if (page.edgeLines) {
+    // Only the page's first and last lines can be its margin lines; the same
+    // text further in, such as a heading repeating the running header, is body text
+    const headers = page.edgeLines.filter(line => line.top < 0.5);
+    const footers = page.edgeLines.filter(line => line.top >= 0.5);
+    const headerKeys = new Set(headers.map(line => lineKey(line.text)));
+    const footerKeys = new Set(footers.map(line => lineKey(line.text)));
+    const head = nonEmpty.slice(0, headers.length);
+    const tail = nonEmpty.slice(Math.max(headers.length, nonEmpty.length - footers.length));
+    return [
+      ...head.filter(({ line }) => headerKeys.has(lineKey(line)))
+        .map(({ line, lineIndex }) => ({ lineIndex, key: lineKey(line), position: 'header' as const })),
+      ...tail.filter(({ line }) => footerKeys.has(lineKey(line)))
+        .map(({ line, lineIndex }) => ({ lineIndex, key: lineKey(line), position: 'footer' as const }))
+    ];
+  }
+
+  const head = nonEmpty.slice(0, EDGE_LINE_COUNT);
+  const tail = nonEmpty.slice(Math.max(EDGE_LINE_COUNT, nonEmpty.length - EDGE_LINE_COUNT));
+  return [
+    ...head.map(({ line, lineIndex }) => ({ lineIndex, key: lineKey(line), position: 'header' as const })),
+    ...tail.map(({ line, lineIndex }) => ({ lineIndex, key: lineKey(line), position: 'footer' as const }))
+  ];
+};
+
+/**
+ * Remove lines repeated across the pages of a document. Pages are located in
+ * the text by their character offsets; text outside pages is kept as it is.
+ */
+export const removeBoilerplate = (text: string, pages: DocumentPage[]): { text: string; report: BoilerplateReport } => {
+  const report: BoilerplateReport = { removed: [], removedLines: 0, removedCharacters: 0 };
+  // Offsets from an older extraction may not match; such pages are left alone
+  const usable = pages.filter(page => text.slice(page.charStart, page.charEnd) === page.text);
+  if (usable.length < 2) return { text, report };
+
+  const candidates = usable.map(findCandidates);
+
+  // Count each line once per page it appears on
+  const pageCounts = new Map<string, number>();
+  candidates.forEach(pageCandidates => {
+    new Set(pageCandidates.map(candidate => candidate.key)).forEach(key => {
+      pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+    });
+  });
+
+  const minPages = Math.max(2, Math.ceil(usable.length * MIN_PAGE_SHARE));
+  const isBoilerplate = (key: string) =>
+    key.length > 0 && key.length <= MAX_LINE_LENGTH && (pageCounts.get(key) ?? 0) >= minPages;
+
+  const removedByKey = new Map<string, RemovedBoilerplate>();
+  let result = '';
+  let position = 0;
+
+  usable.forEach((page, pageIndex) => {
+    const lines = page.text.split('\n');
+    const removedIndexes = new Set<number>();
+
+    candidates[pageIndex].filter(candidate => isBoilerplate(candidate.key)).forEach(candidate => {
+      if (removedIndexes.has(candidate.lineIndex)) return;
+      removedIndexes.add(candidate.lineIndex);
+      report.removedLines++;
+      report.removedCharacters += lines[candidate.lineIndex].length + 1;
+      if (!removedByKey.has(candidate.key)) {
+        removedByKey.set(candidate.key, {
+          text: lines[candidate.lineIndex].trim(),
+          pageCount: pageCounts.get(candidate.key) ?? 0,
+          position: candidate.position
+        });
+      }
+    });
+
+    const cleaned = lines
+      .filter((_, lineIndex) => !removedIndexes.has(lineIndex))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    result += text.slice(position, page.charStart) + cleaned;
+    position = page.charEnd;
+  });
+  result += text.slice(position);
+
+  report.removed = [...removedByKey.values()].sort((a, b) => b.pageCount - a.pageCount);
+  return { text: result, report };
+};
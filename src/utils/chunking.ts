@@ -0,0 +1,275 @@
+/**
+ * Chunking utilities for splitting preprocessed documents into
+ * context-window-sized pieces for retrieval (RAG) pipelines
+ */
+
+import { ChunkingOptions, DocumentChunk, ExtractedDocument } from '../types';
+import { alignTokens } from './tokenComparison';
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  strategy: 'paragraphs',
+  maxTokens: 512,
+  overlapTokens: 64
+};
+
+// Rough characters-per-token ratio used when no tokenization is available
+const ESTIMATED_CHARS_PER_TOKEN = 4;
+
+interface TextUnit {
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+/**
+ * Token positions for a text, either measured from real tokens or estimated
+ */
+interface TokenMeasure {
+  estimated: boolean;
+  totalTokens: number;
+  // Index of the first token starting at or after a character position
+  tokenAt(position: number): number;
+  // Character position where a token starts
+  charAt(tokenIndex: number): number;
+}
+
+const createMeasuredTokens = (text: string, tokens: string[]): TokenMeasure => {
+  const starts = alignTokens(text, tokens).map(([start]) => start);
+
+  return {
+    estimated: false,
+    totalTokens: starts.length,
+    tokenAt(position: number) {
+      let low = 0;
+      let high = starts.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (starts[mid] < position) low = mid + 1;
+        else high = mid;
+      }
+      return low;
+    },
+    charAt(tokenIndex: number) {
+      return tokenIndex >= starts.length ? text.length : starts[Math.max(0, tokenIndex)];
+    }
+  };
+};
+
+const createEstimatedTokens = (text: string): TokenMeasure => ({
+  estimated: true,
+  totalTokens: Math.ceil(text.length / ESTIMATED_CHARS_PER_TOKEN),
+  tokenAt(position: number) {
+    return Math.ceil(position / ESTIMATED_CHARS_PER_TOKEN);
+  },
+  charAt(tokenIndex: number) {
+    return Math.min(text.length, Math.max(0, tokenIndex * ESTIMATED_CHARS_PER_TOKEN));
+  }
+});
+
+// Header lines: Markdown headings, short all-caps lines, or numbered section titles
+const HEADER_LINE = /^(#{1,6}\s+\S.*|[A-ZÀ-Ÿ0-9][A-ZÀ-Ÿ0-9\s&/,.'()-]{2,79}|\d+(\.\d+)*\.?\s+[A-ZÀ-Ÿ][^.!?]{0,78})$/;
+// Field lines: "FIELD NAME:" or "Field Name:" at the start of a line
+const FIELD_LINE = /^[A-ZÀ-Ÿ][A-Za-zÀ-ÿ\s]{2,60}:/;
+
+export class TextChunker {
+  private static instance: TextChunker;
+
+  static getInstance(): TextChunker {
+    if (!TextChunker.instance) {
+      TextChunker.instance = new TextChunker();
+    }
+    return TextChunker.instance;
+  }
+
+  /**
+   * Chunk the preprocessed text of a document. Real token counts are used when
+   * the document was tokenized, otherwise counts are estimated from characters.
+   */
+  chunkDocument(document: ExtractedDocument, options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS): DocumentChunk[] {
+    const text = document.preprocessedText ?? document.extractedText;
+    if (text.trim().length === 0) return [];
+
+    const maxTokens = Math.max(1, Math.floor(options.maxTokens));
+    const overlapTokens = Math.min(Math.max(0, Math.floor(options.overlapTokens)), maxTokens - 1);
+    const measure = document.tokenizedData?.tokens.length
+      ? createMeasuredTokens(text, document.tokenizedData.tokens)
+      : createEstimatedTokens(text);
+
+    const ranges = options.strategy === 'tokens'
+      ? this.fixedWindows({ start: 0, end: text.length }, measure, maxTokens, overlapTokens, text)
+      : this.packUnits(this.splitUnits(text, options.strategy), measure, maxTokens, overlapTokens, text);
+
+    return ranges.map((range, index) => {
+      const tokenStart = measure.tokenAt(range.start);
+      const tokenEnd = measure.tokenAt(range.end);
+
+      return {
+        id: `${document.id}-chunk-${index}`,
+        documentId: document.id,
+        fileName: document.fileName,
+        index,
+        text: text.slice(range.start, range.end),
+        charStart: range.start,
+        charEnd: range.end,
+        tokenStart,
+        tokenEnd,
+        tokenCount: Math.max(tokenEnd - tokenStart, 1),
+        tokenCountEstimated: measure.estimated,
+        heading: range.heading
+      };
+    });
+  }
+
+  /**
+   * Split text into structural units for the given strategy
+   */
+  private splitUnits(text: string, strategy: ChunkingOptions['strategy']): TextUnit[] {
+    const units: TextUnit[] = [];
+
+    if (strategy === 'paragraphs') {
+      const separator = /\n\s*\n/g;
+      let start = 0;
+      for (const match of text.matchAll(separator)) {
+        const index = match.index ?? 0;
+        if (index > start) units.push({ start, end: index });
+        start = index + match[0].length;
+      }
+      if (start < text.length) units.push({ start, end: text.length });
+      return this.trimUnits(text, units);
+    }
+
+    // Header and field strategies start a new unit at each matching line
+    const linePattern = strategy === 'headers' ? HEADER_LINE : FIELD_LINE;
+    let current: TextUnit = { start: 0, end: 0 };
+    let position = 0;
+
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed.length > 0 && linePattern.test(trimmed) && position > current.start) {
+        current.end = position;
+        units.push(current);
+        current = { start: position, end: 0 };
+      }
+      if (trimmed.length > 0 && position === current.start) {
+        current.heading = linePattern.test(trimmed)
+          ? (strategy === 'headers' ? trimmed.replace(/^#+\s*/, '') : trimmed.split(':')[0])
+          : undefined;
+      }
+      position += line.length + 1;
+    }
+    current.end = text.length;
+    units.push(current);
+
+    return this.trimUnits(text, units);
+  }
+
+  private trimUnits(text: string, units: TextUnit[]): TextUnit[] {
+    return units
+      .map(unit => {
+        let { start, end } = unit;
+        while (start < end && /\s/.test(text[start])) start++;
+        while (end > start && /\s/.test(text[end - 1])) end--;
+        return { ...unit, start, end };
+      })
+      .filter(unit => unit.end > unit.start);
+  }
+
+  /**
+   * Greedily merge consecutive units into chunks that fit the token limit.
+   * Units that are too large on their own fall back to fixed token windows.
+   */
+  private packUnits(
+    units: TextUnit[],
+    measure: TokenMeasure,
+    maxTokens: number,
+    overlapTokens: number,
+    text: string
+  ): TextUnit[] {
+    const chunks: TextUnit[] = [];
+    let current: TextUnit | null = null;
+
+    const tokensIn = (start: number, end: number) => measure.tokenAt(end) - measure.tokenAt(start);
+
+    for (const unit of units) {
+      if (tokensIn(unit.start, unit.end) > maxTokens) {
+        if (current) chunks.push(current);
+        current = null;
+        chunks.push(...this.fixedWindows(unit, measure, maxTokens, overlapTokens, text));
+        continue;
+      }
+
+      if (current && tokensIn(current.start, unit.end) <= maxTokens) {
+        current.end = unit.end;
+        continue;
+      }
+
+      if (current) {
+        chunks.push(current);
+        // Carry the tail of the previous chunk into the next one
+        const overlapStart = this.overlapStart(current.end, unit.start, measure, overlapTokens, text);
+        current = {
+          start: tokensIn(overlapStart, unit.end) <= maxTokens ? overlapStart : unit.start,
+          end: unit.end,
+          heading: unit.heading ?? current.heading
+        };
+      } else {
+        current = { ...unit };
+      }
+    }
+
+    if (current) chunks.push(current);
+    return chunks;
+  }
+
+  /**
+   * Fixed-size token windows with overlap over a character range
+   */
+  private fixedWindows(
+    range: TextUnit,
+    measure: TokenMeasure,
+    maxTokens: number,
+    overlapTokens: number,
+    text: string
+  ): TextUnit[] {
+    const windows: TextUnit[] = [];
+    const firstToken = measure.tokenAt(range.start);
+    const lastToken = measure.tokenAt(range.end);
+    const step = Math.max(1, maxTokens - overlapTokens);
+
+    for (let token = firstToken; token < lastToken; token += step) {
+      const endToken = Math.min(token + maxTokens, lastToken);
+      const start = token === firstToken
+        ? range.start
+        : Math.max(range.start, this.snapToWhitespace(text, measure.charAt(token), range.start));
+      const end = endToken >= lastToken ? range.end : this.snapToWhitespace(text, measure.charAt(endToken), start);
+      if (end > start) {
+        windows.push({ start, end, heading: range.heading });
+      }
+      if (endToken >= lastToken) break;
+    }
+
+    return windows;
+  }
+
+  private overlapStart(
+    previousEnd: number,
+    nextStart: number,
+    measure: TokenMeasure,
+    overlapTokens: number,
+    text: string
+  ): number {
+    if (overlapTokens === 0) return nextStart;
+    const start = measure.charAt(Math.max(0, measure.tokenAt(previousEnd) - overlapTokens));
+    return Math.min(nextStart, this.snapToWhitespace(text, start, 0));
+  }
+
+  /**
+   * Move an estimated position back to the nearest word boundary
+   */
+  private snapToWhitespace(text: string, position: number, minimum: number): number {
+    let snapped = Math.min(position, text.length);
+    const limit = Math.max(minimum, snapped - 40);
+    while (snapped > limit && !/\s/.test(text[snapped - 1])) snapped--;
+    return snapped > limit || snapped === minimum ? snapped : position;
+  }
+}
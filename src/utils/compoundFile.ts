@@ -0,0 +1,185 @@
+/**
+ * OLE2 compound file reader
+ * Reads the streams of a Compound File Binary (CFB) container, the format
+ * behind Word 97-2003 .doc files and other legacy Office documents.
+ */
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Special sector numbers
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+// Directory entry object types
+const STREAM_OBJECT = 2;
+const ROOT_STORAGE = 5;
+
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+export class CompoundFile {
+  private data: Uint8Array;
+  private view: DataView;
+  private sectorSize: number;
+  private miniSectorSize: number;
+  private miniStreamCutoff: number;
+  private fat: number[] = [];
+  private miniFat: number[] = [];
+  private entries: DirectoryEntry[] = [];
+  private miniStream = new Uint8Array(0);
+
+  constructor(data: Uint8Array) {
+    if (!CompoundFile.isCompoundFile(data)) {
+      throw new Error('Not an OLE2 compound file');
+    }
+
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+
+    this.readFat();
+    this.miniFat = this.readSectorNumbers(this.readChain(this.view.getUint32(0x3c, true), this.fat));
+    this.readDirectory(this.view.getUint32(0x30, true));
+
+    const root = this.entries.find(entry => entry.type === ROOT_STORAGE);
+    if (root && root.startSector !== END_OF_CHAIN) {
+      this.miniStream = this.readChain(root.startSector, this.fat).subarray(0, root.size);
+    }
+  }
+
+  static isCompoundFile(data: Uint8Array): boolean {
+    return data.length >= 512 && SIGNATURE.every((byte, index) => data[index] === byte);
+  }
+
+  /**
+   * Names of all streams in the file, in directory order
+   */
+  listStreams(): string[] {
+    return this.entries.filter(entry => entry.type === STREAM_OBJECT).map(entry => entry.name);
+  }
+
+  /**
+   * Contents of the stream with the given name, wherever it sits in the storage tree
+   */
+  getStream(name: string): Uint8Array | undefined {
+    const entry = this.entries.find(candidate => candidate.type === STREAM_OBJECT && candidate.name === name);
+    if (!entry) return undefined;
+
+    // Small streams live in the mini stream, addressed in mini sectors
+    const data = entry.size < this.miniStreamCutoff
+      ? this.readChain(entry.startSector, this.miniFat, true)
+      : this.readChain(entry.startSector, this.fat);
+    return data.subarray(0, entry.size);
+  }
+
+  private sectorOffset(sector: number): number {
+    // Sector 0 starts right after the header, which takes one sector
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private readSectorNumbers(bytes: Uint8Array): number[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return Array.from({ length: Math.floor(bytes.length / 4) }, (_, index) => view.getUint32(index * 4, true));
+  }
+
+  private readFat(): void {
+    const fatSectors: number[] = [];
+    for (let index = 0; index < HEADER_DIFAT_ENTRIES; index++) {
+      const sector = this.view.getUint32(0x4c + index * 4, true);
+      if (sector !== FREE_SECTOR && sector !== END_OF_CHAIN) fatSectors.push(sector);
+    }
+
+    // Files with more than 109 FAT sectors list the rest in a chain of DIFAT sectors
+    let difatSector = this.view.getUint32(0x44, true);
+    const perSector = this.sectorSize / 4 - 1;
+    const visited = new Set<number>();
+    while (difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && !visited.has(difatSector)) {
+      visited.add(difatSector);
+      const offset = this.sectorOffset(difatSector);
+      if (offset + this.sectorSize > this.data.length) break;
+      for (let index = 0; index < perSector; index++) {
+        const sector = this.view.getUint32(offset + index * 4, true);
+        if (sector !== FREE_SECTOR && sector !== END_OF_CHAIN) fatSectors.push(sector);
+      }
+      difatSector = this.view.getUint32(offset + perSector * 4, true);
+    }
+
+    this.fat = fatSectors.flatMap(sector => {
+      const offset = this.sectorOffset(sector);
+      if (offset + this.sectorSize > this.data.length) return [];
+      return this.readSectorNumbers(this.data.subarray(offset, offset + this.sectorSize));
+    });
+  }
+
+  /**
+   * Concatenate the sectors of a chain. Cycles and out-of-range sectors end the
+   * chain instead of looping forever on a damaged file.
+   */
+  private readChain(start: number, table: number[], mini = false): Uint8Array {
+    const size = mini ? this.miniSectorSize : this.sectorSize;
+    const chunks: Uint8Array[] = [];
+    const visited = new Set<number>();
+    let sector = start;
+
+    while (sector !== END_OF_CHAIN && sector < table.length && !visited.has(sector)) {
+      visited.add(sector);
+      const offset = mini ? sector * size : this.sectorOffset(sector);
+      const source = mini ? this.miniStream : this.data;
+      if (offset + size > source.length) {
+        chunks.push(source.subarray(offset, source.length));
+        break;
+      }
+      chunks.push(source.subarray(offset, offset + size));
+      sector = table[sector];
+    }
+
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let position = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result;
+  }
+
+  private readDirectory(start: number): void {
+    const directory = this.readChain(start, this.fat);
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = Math.min(view.getUint16(offset + 0x40, true), 64);
+      const type = view.getUint8(offset + 0x42);
+      if (type === 0 || nameLength < 2) continue;
+
+      // Names are UTF-16LE including the terminating NUL
+      const name = new TextDecoder('utf-16le').decode(directory.subarray(offset, offset + nameLength - 2));
+      const startSector = view.getUint32(offset + 0x74, true);
+      // Version 3 files only use the low 32 bits of the size
+      const size = view.getUint32(offset + 0x78, true);
+      this.entries.push({ name, type, startSector: startSector === NO_STREAM ? END_OF_CHAIN : startSector, size });
+    }
+  }
+}
+
+/**
+ * Extractor id for a compound file. Word documents are the only supported
+ * OLE2 files; Excel and PowerPoint 97-2003 are not.
+ */
+export const detectCompoundFormat = async (file: Blob): Promise<string | undefined> => {
+  try {
+    const compoundFile = new CompoundFile(new Uint8Array(await file.arrayBuffer()));
+    return compoundFile.listStreams().includes('WordDocument') ? 'doc' : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,150 @@
+/**
+ * Corpus export utilities
+ * Builds one JSONL file covering every processed document, for embedding
+ * and fine-tuning pipelines.
+ */
+
+import { ExtractedDocument } from '../types';
+import { redactDocumentForExport } from './piiRedaction';
+
+export type ExportGranularity = 'raw' | 'preprocessed' | 'chunked';
+
+export interface CorpusExportOptions {
+  granularity: ExportGranularity;
+  includeHeader: boolean;
+}
+
+export const CORPUS_SCHEMA = 'ux-for-llm/corpus';
+export const CORPUS_SCHEMA_VERSION = 1;
+
+export interface CorpusRecord {
+  document_id: string;
+  file_name: string;
+  chunk_index: number;
+  text: string;
+  token_ids: number[] | null;
+  token_count: number | null;
+  model_name: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface CorpusHeader {
+  _type: 'header';
+  schema: string;
+  version: number;
+  granularity: ExportGranularity;
+  created_at: string;
+  document_count: number;
+  record_count: number;
+  fields: Array<keyof CorpusRecord>;
+}
+
+const documentMetadata = (doc: ExtractedDocument): Record<string, unknown> => ({
+  file_type: doc.fileType,
+  word_count: doc.wordCount,
+  extracted_at: doc.extractedAt.toISOString(),
+  tokenized_at: doc.tokenizedData?.tokenizedAt.toISOString() ?? null,
+  title: doc.metadata?.title,
+  author: doc.metadata?.author,
+  subject: doc.metadata?.subject,
+  keywords: doc.metadata?.keywords,
+  page_count: doc.metadata?.pageCount,
+  created_at: doc.metadata?.createdAt,
+  modified_at: doc.metadata?.modifiedAt,
+  creator: doc.metadata?.creator,
+  producer: doc.metadata?.producer,
+  encoding: doc.metadata?.encoding,
+  table_count: doc.tables?.length ?? 0,
+  ocr_pages: doc.metadata?.ocrPages?.map(page => ({ page_number: page.pageNumber, confidence: page.confidence })),
+  archive_path: doc.metadata?.archivePath,
+  preprocessing_stats: doc.metadata?.preprocessingStats
+});
+
+/**
+ * Build export records for a set of documents at the requested granularity
+ */
+export const buildCorpusRecords = (
+  documents: ExtractedDocument[],
+  granularity: ExportGranularity
+): CorpusRecord[] => {
+  // Raw text and document properties still hold the personal data preprocessing redacted
+  return documents.map(redactDocumentForExport).flatMap((doc): CorpusRecord[] => {
+    const tokenized = doc.tokenizedData;
+
+    if (granularity === 'raw') {
+      // Tokenization runs on preprocessed text, so raw records carry no token IDs
+      return [{
+        document_id: doc.id,
+        file_name: doc.fileName,
+        chunk_index: 0,
+        text: doc.extractedText,
+        token_ids: null,
+        token_count: null,
+        model_name: null,
+        metadata: documentMetadata(doc)
+      }];
+    }
+
+    if (granularity === 'preprocessed' || !doc.chunks?.length) {
+      return [{
+        document_id: doc.id,
+        file_name: doc.fileName,
+        chunk_index: 0,
+        text: doc.preprocessedText ?? doc.extractedText,
+        token_ids: tokenized?.tokenIds.length ? tokenized.tokenIds : null,
+        token_count: tokenized?.tokenCount ?? null,
+        model_name: tokenized?.modelName ?? null,
+        metadata: documentMetadata(doc)
+      }];
+    }
+
+    return doc.chunks.map(chunk => {
+      const hasTokenIds = !chunk.tokenCountEstimated && Boolean(tokenized?.tokenIds.length);
+      return {
+        document_id: doc.id,
+        file_name: doc.fileName,
+        chunk_index: chunk.index,
+        text: chunk.text,
+        token_ids: hasTokenIds && tokenized ? tokenized.tokenIds.slice(chunk.tokenStart, chunk.tokenEnd) : null,
+        token_count: chunk.tokenCountEstimated ? null : chunk.tokenCount,
+        model_name: chunk.tokenCountEstimated ? null : tokenized?.modelName ?? null,
+        metadata: {
+          ...documentMetadata(doc),
+          chunk_id: chunk.id,
+          chunk_count: doc.chunks?.length,
+          char_start: chunk.charStart,
+          char_end: chunk.charEnd,
+          token_start: chunk.tokenStart,
+          token_end: chunk.tokenEnd,
+          estimated_token_count: chunk.tokenCountEstimated ? chunk.tokenCount : undefined,
+          heading: chunk.heading,
+          chunking: doc.chunkingOptions
+        }
+      };
+    });
+  });
+};
+
+/**
+ * Serialize documents as JSONL, optionally preceded by a schema header line
+ */
+export const buildCorpusJsonl = (documents: ExtractedDocument[], options: CorpusExportOptions): string => {
+  const records = buildCorpusRecords(documents, options.granularity);
+  const lines = records.map(record => JSON.stringify(record));
+
+  if (options.includeHeader) {
+    const header: CorpusHeader = {
+      _type: 'header',
+      schema: CORPUS_SCHEMA,
+      version: CORPUS_SCHEMA_VERSION,
+      granularity: options.granularity,
+      created_at: new Date().toISOString(),
+      document_count: documents.length,
+      record_count: records.length,
+      fields: ['document_id', 'file_name', 'chunk_index', 'text', 'token_ids', 'token_count', 'model_name', 'metadata']
+    };
+    lines.unshift(JSON.stringify(header));
+  }
+
+  return lines.join('\n') + '\n';
+};
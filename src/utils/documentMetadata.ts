@@ -0,0 +1,313 @@
+/**
+ * Document property extraction
+ * Reads title, author and related fields from PDF Info/XMP metadata,
+ * Office and OpenDocument property parts, legacy Office summary information,
+ * HTML meta tags, email headers and plain-text headers.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { DocumentProperties, ExtractedDocument } from '../types';
+import type JSZip from 'jszip';
+import { findAll, findFirst, MarkupElement, parseMarkup, textContent } from './markupParser';
+
+const cleanValue = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) value = value.filter(item => typeof item === 'string' && item.trim()).join(', ');
+  if (typeof value !== 'string') return undefined;
+  // Some producers pad Info strings with NULs
+  const cleaned = value.replace(/\0/g, '').replace(/\s+/g, ' ').trim();
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+// Parses PDF dates ("D:20240131120000+01'00'"), which Date does not understand
+type PdfDateParser = (text: string) => Date | null;
+
+const toIsoDate = (value: unknown, parsePdfDate?: PdfDateParser): string | undefined => {
+  const text = cleanValue(value);
+  if (!text) return undefined;
+  const date = parsePdfDate && text.startsWith('D:') ? parsePdfDate(text) : new Date(text);
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+const field = (root: MarkupElement, name: string): string | undefined => {
+  const element = findFirst(root, name);
+  return element ? cleanValue(textContent(element)) : undefined;
+};
+
+/**
+ * Drop empty fields so metadata only lists what the document actually declares
+ */
+const compact = (properties: DocumentProperties): DocumentProperties =>
+  Object.fromEntries(
+    Object.entries(properties).filter(([, value]) => value !== undefined && value !== '')
+  ) as DocumentProperties;
+
+/**
+ * Read PDF properties. XMP metadata is preferred over the Info dictionary
+ * because it is usually the more recently updated of the two.
+ */
+export const extractPdfProperties = async (pdf: PDFDocumentProxy): Promise<DocumentProperties> => {
+  try {
+    // Imported here so the rest of this module does not pull PDF.js into the main bundle
+    const { PDFDateString } = await import('pdfjs-dist');
+    const parsePdfDate: PdfDateParser = text => PDFDateString.toDateObject(text);
+    const { info, metadata } = await pdf.getMetadata();
+    const infoDict = (info ?? {}) as Record<string, unknown>;
+    const xmp = (name: string): unknown => metadata?.get(name) ?? undefined;
+
+    return compact({
+      pageCount: pdf.numPages,
+      title: cleanValue(xmp('dc:title')) ?? cleanValue(infoDict.Title),
+      author: cleanValue(xmp('dc:creator')) ?? cleanValue(infoDict.Author),
+      subject: cleanValue(xmp('dc:description')) ?? cleanValue(infoDict.Subject),
+      // XMP stores keywords both as pdf:Keywords and as dc:subject bag items
+      keywords: cleanValue(xmp('pdf:keywords')) ?? cleanValue(infoDict.Keywords) ?? cleanValue(xmp('dc:subject')),
+      creator: cleanValue(xmp('xmp:creatortool')) ?? cleanValue(infoDict.Creator),
+      producer: cleanValue(xmp('pdf:producer')) ?? cleanValue(infoDict.Producer),
+      createdAt: toIsoDate(xmp('xmp:createdate')) ?? toIsoDate(infoDict.CreationDate, parsePdfDate),
+      modifiedAt: toIsoDate(xmp('xmp:modifydate')) ?? toIsoDate(infoDict.ModDate, parsePdfDate)
+    });
+  } catch (error) {
+    console.warn('Failed to read PDF metadata:', error);
+    return { pageCount: pdf.numPages };
+  }
+};
+
+/**
+ * Read Office Open XML (DOCX, XLSX, PPTX) properties from docProps/core.xml and docProps/app.xml
+ */
+export const extractOfficeProperties = async (zip: JSZip): Promise<DocumentProperties> => {
+  try {
+    const coreXml = await zip.file('docProps/core.xml')?.async('string');
+    const appXml = await zip.file('docProps/app.xml')?.async('string');
+
+    const core = parseMarkup(coreXml ?? '');
+    const app = parseMarkup(appXml ?? '');
+    // Word counts pages, PowerPoint counts slides
+    const pages = Number(field(app, 'Pages') ?? field(app, 'Slides'));
+
+    return compact({
+      pageCount: Number.isInteger(pages) && pages > 0 ? pages : undefined,
+      title: field(core, 'dc:title'),
+      author: field(core, 'dc:creator') ?? field(core, 'cp:lastModifiedBy'),
+      subject: field(core, 'dc:subject') ?? field(core, 'dc:description'),
+      keywords: field(core, 'cp:keywords'),
+      creator: field(app, 'Application'),
+      createdAt: toIsoDate(field(core, 'dcterms:created')),
+      modifiedAt: toIsoDate(field(core, 'dcterms:modified'))
+    });
+  } catch (error) {
+    console.warn('Failed to read Office document properties:', error);
+    return {};
+  }
+};
+
+/**
+ * Read OpenDocument (ODT) properties from meta.xml
+ */
+export const extractOpenDocumentProperties = async (zip: JSZip): Promise<DocumentProperties> => {
+  try {
+    const meta = parseMarkup(await zip.file('meta.xml')?.async('string') ?? '');
+    const statistics = findFirst(meta, 'meta:document-statistic');
+    const pages = Number(statistics?.attributes['meta:page-count']);
+    const keywords = findAll(meta, 'meta:keyword').map(element => cleanValue(textContent(element))).filter(Boolean);
+
+    return compact({
+      pageCount: Number.isInteger(pages) && pages > 0 ? pages : undefined,
+      title: field(meta, 'dc:title'),
+      author: field(meta, 'dc:creator') ?? field(meta, 'meta:initial-creator'),
+      subject: field(meta, 'dc:subject') ?? field(meta, 'dc:description'),
+      keywords: keywords.length > 0 ? keywords.join(', ') : undefined,
+      creator: field(meta, 'meta:generator'),
+      createdAt: toIsoDate(field(meta, 'meta:creation-date')),
+      modifiedAt: toIsoDate(field(meta, 'dc:date'))
+    });
+  } catch (error) {
+    console.warn('Failed to read OpenDocument properties:', error);
+    return {};
+  }
+};
+
+/**
+ * Read HTML properties from <title> and <meta> tags
+ */
+export const extractHtmlProperties = (root: MarkupElement): DocumentProperties => {
+  const meta = (name: string) => {
+    const element = findAll(root, 'meta')
+      .find(tag => (tag.attributes.name ?? tag.attributes.property)?.toLowerCase() === name);
+    return cleanValue(element?.attributes.content);
+  };
+
+  return compact({
+    title: field(root, 'title') ?? meta('og:title'),
+    author: meta('author'),
+    subject: meta('description'),
+    keywords: meta('keywords'),
+    creator: meta('generator')
+  });
+};
+
+// Property ids of the OLE SummaryInformation property set
+const SUMMARY_PROPERTIES = {
+  codePage: 1, title: 2, subject: 3, author: 4, keywords: 5, lastAuthor: 8,
+  createdAt: 12, modifiedAt: 13, pageCount: 14, creator: 18
+};
+
+// 100-nanosecond intervals between 1601-01-01 (FILETIME epoch) and 1970-01-01
+const FILETIME_UNIX_OFFSET = 116444736000000000n;
+
+/**
+ * Read legacy Office properties from an OLE "\x05SummaryInformation" stream
+ */
+export const extractSummaryInformation = (stream: Uint8Array): DocumentProperties => {
+  try {
+    const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+    const sectionOffset = view.getUint32(44, true);
+    const count = view.getUint32(sectionOffset + 4, true);
+    const values = new Map<number, string | number>();
+    let codePage = 1252;
+
+    const decode = (bytes: Uint8Array) => {
+      const encoding = codePage === 65001 ? 'utf-8' : codePage === 1200 ? 'utf-16le' : `windows-${codePage}`;
+      try {
+        return new TextDecoder(encoding).decode(bytes);
+      } catch {
+        return new TextDecoder('windows-1252').decode(bytes);
+      }
+    };
+
+    for (let index = 0; index < count; index++) {
+      const id = view.getUint32(sectionOffset + 8 + index * 8, true);
+      const offset = sectionOffset + view.getUint32(sectionOffset + 12 + index * 8, true);
+      const type = view.getUint32(offset, true) & 0xffff;
+
+      switch (type) {
+        case 0x02: // VT_I2
+          if (id === SUMMARY_PROPERTIES.codePage) codePage = view.getUint16(offset + 4, true);
+          break;
+        case 0x03: // VT_I4
+          values.set(id, view.getInt32(offset + 4, true));
+          break;
+        case 0x1e: { // VT_LPSTR, length in bytes including the NUL
+          const length = view.getUint32(offset + 4, true);
+          values.set(id, decode(stream.subarray(offset + 8, offset + 8 + length)));
+          break;
+        }
+        case 0x1f: { // VT_LPWSTR, length in characters
+          const length = view.getUint32(offset + 4, true);
+          values.set(id, new TextDecoder('utf-16le').decode(stream.subarray(offset + 8, offset + 8 + length * 2)));
+          break;
+        }
+        case 0x40: { // VT_FILETIME
+          const ticks = view.getBigUint64(offset + 4, true);
+          if (ticks > FILETIME_UNIX_OFFSET) {
+            values.set(id, new Date(Number((ticks - FILETIME_UNIX_OFFSET) / 10000n)).toISOString());
+          }
+          break;
+        }
+        default:
+      }
+    }
+
+    const text = (id: number) => cleanValue(values.get(id));
+    const pages = values.get(SUMMARY_PROPERTIES.pageCount);
+
+    return compact({
+      pageCount: typeof pages === 'number' && pages > 0 ? pages : undefined,
+      title: text(SUMMARY_PROPERTIES.title),
+      author: text(SUMMARY_PROPERTIES.author) ?? text(SUMMARY_PROPERTIES.lastAuthor),
+      subject: text(SUMMARY_PROPERTIES.subject),
+      keywords: text(SUMMARY_PROPERTIES.keywords),
+      creator: text(SUMMARY_PROPERTIES.creator),
+      createdAt: text(SUMMARY_PROPERTIES.createdAt),
+      modifiedAt: text(SUMMARY_PROPERTIES.modifiedAt)
+    });
+  } catch (error) {
+    console.warn('Failed to read document summary information:', error);
+    return {};
+  }
+};
+
+/**
+ * Map decoded email headers (lower-case names) to properties: the subject is the
+ * title and the sender, by display name when there is one, the author
+ */
+export const extractEmailProperties = (headers: Map<string, string>): DocumentProperties => {
+  const from = headers.get('from');
+  const senderName = from ? /^\s*"?([^"<]*?)"?\s*<[^>]+>/.exec(from)?.[1] : undefined;
+
+  return compact({
+    title: cleanValue(headers.get('subject')),
+    author: cleanValue(senderName) ?? cleanValue(from),
+    keywords: cleanValue(headers.get('keywords')),
+    creator: cleanValue(headers.get('x-mailer') ?? headers.get('user-agent')),
+    createdAt: toIsoDate(headers.get('date'))
+  });
+};
+
+// "Title: ...", "Author: ..." style header lines at the top of a text file
+const TEXT_HEADER_LINE = /^(title|author|by|subject|keywords|tags)\s*:\s*(.+)$/i;
+
+/**
+ * Infer properties for plain text: explicit header lines when present,
+ * otherwise a short first line is taken as the title
+ */
+export const extractTextProperties = (text: string): DocumentProperties => {
+  const lines = text.split(/\r?\n/).slice(0, 20).map(line => line.trim());
+  const properties: DocumentProperties = {};
+
+  for (const line of lines) {
+    const match = TEXT_HEADER_LINE.exec(line);
+    if (!match) continue;
+    const value = cleanValue(match[2].replace(/^(["'])(.*)\1$/, '$2'));
+    switch (match[1].toLowerCase()) {
+      case 'title': properties.title ??= value; break;
+      case 'author':
+      case 'by': properties.author ??= value; break;
+      case 'subject': properties.subject ??= value; break;
+      default: properties.keywords ??= value;
+    }
+  }
+
+  if (!properties.title) {
+    const firstLine = lines.find(line => line.length > 0);
+    // Skip "Key: value" header lines and sentences
+    if (firstLine && firstLine.length <= 120 && !/[.,;:]$/.test(firstLine) && !/^[\w\s-]{1,30}:\s/.test(firstLine)) {
+      properties.title = cleanValue(firstLine.replace(/^#+\s*/, ''));
+    }
+  }
+
+  return compact(properties);
+};
+
+/**
+ * Document properties as flat label/value pairs for display and exports
+ */
+export const describeProperties = (doc: ExtractedDocument): Array<[string, string]> => {
+  const metadata = doc.metadata ?? {};
+  const entries: Array<[string, string | number | undefined]> = [
+    ['Title', metadata.title],
+    ['Author', metadata.author],
+    ['Subject', metadata.subject],
+    ['Keywords', metadata.keywords],
+    ['Pages', metadata.pageCount],
+    ['Created', metadata.createdAt],
+    ['Modified', metadata.modifiedAt],
+    ['Creator', metadata.creator],
+    ['Producer', metadata.producer],
+    ['Encoding', metadata.encoding],
+    ['OCR pages', metadata.ocrPages?.map(page => `${page.pageNumber} (${page.confidence}%)`).join(', ')],
+    ['Archive path', metadata.archivePath]
+  ];
+  return entries
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([label, value]) => [label, String(value)]);
+};
+
+/**
+ * YAML-style front matter describing a document, prepended to text exports
+ */
+export const propertiesFrontMatter = (doc: ExtractedDocument): string => {
+  const lines = [['File', doc.fileName] as [string, string], ...describeProperties(doc)]
+    .map(([label, value]) => `${label.toLowerCase().replace(/\s+/g, '_')}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+};
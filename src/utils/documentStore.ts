@@ -0,0 +1,151 @@
+import { ExtractedDocument, TokenizedData } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+/**
+ * Local document library
+ * Keeps processed documents in IndexedDB, with the original file beside each
+ * one, so extraction and tokenization survive a page reload.
+ */
+
+const DATABASE_NAME = 'grant-document-library';
+const DATABASE_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+// Original files, keyed by document id; kept apart so listing never reads them
+const FILES_STORE = 'files';
+
+export interface StoredFile {
+  id: string;
+  file: Blob;
+  fileName: string;
+}
+
+export interface StorageEstimate {
+  // Bytes used by this origin
+  usage: number;
+  // Bytes available to this origin
+  quota: number;
+}
+
+const toDate = (value: Date | string | number): Date => (value instanceof Date ? value : new Date(value));
+
+const reviveTokenizedData = (data: TokenizedData): TokenizedData => ({ ...data, tokenizedAt: toDate(data.tokenizedAt) });
+
+/**
+ * Restore the Date fields of a stored document. IndexedDB keeps Date objects,
+ * but records written by other code paths may hold ISO strings instead.
+ */
+const reviveDocument = (document: ExtractedDocument): ExtractedDocument => ({
+  ...document,
+  extractedAt: toDate(document.extractedAt),
+  tokenizedData: document.tokenizedData && reviveTokenizedData(document.tokenizedData),
+  modelComparisons: document.modelComparisons?.map(reviveTokenizedData)
+});
+
+export class DocumentStore {
+  private static instance: DocumentStore;
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  static getInstance(): DocumentStore {
+    if (!DocumentStore.instance) {
+      DocumentStore.instance = new DocumentStore();
+    }
+    return DocumentStore.instance;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Store a document and the file it was extracted from, replacing any earlier copy
+   */
+  async save(document: ExtractedDocument, file: Blob): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([DOCUMENTS_STORE, FILES_STORE], 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).put(document);
+    transaction.objectStore(FILES_STORE).put({ id: document.id, file, fileName: document.fileName } as StoredFile);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Store changes to a document that is already in the library, such as new chunking
+   * or model comparisons. Documents that are not stored are ignored.
+   */
+  async update(document: ExtractedDocument): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(DOCUMENTS_STORE, 'readwrite');
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    if (await requestToPromise(store.getKey(document.id)) !== undefined) {
+      store.put(document);
+    }
+    await transactionDone(transaction);
+  }
+
+  /**
+   * All stored documents, most recently extracted first
+   */
+  async list(): Promise<ExtractedDocument[]> {
+    const database = await this.open();
+    const store = database.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE);
+    const documents = (await requestToPromise(store.getAll()) as ExtractedDocument[]).map(reviveDocument);
+    return documents.sort((a, b) => b.extractedAt.getTime() - a.extractedAt.getTime());
+  }
+
+  async get(id: string): Promise<ExtractedDocument | undefined> {
+    const database = await this.open();
+    const store = database.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE);
+    const document = await requestToPromise(store.get(id)) as ExtractedDocument | undefined;
+    return document && reviveDocument(document);
+  }
+
+  async getFile(id: string): Promise<StoredFile | undefined> {
+    const database = await this.open();
+    const store = database.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE);
+    return await requestToPromise(store.get(id)) as StoredFile | undefined;
+  }
+
+  async delete(id: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([DOCUMENTS_STORE, FILES_STORE], 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).delete(id);
+    transaction.objectStore(FILES_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([DOCUMENTS_STORE, FILES_STORE], 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).clear();
+    transaction.objectStore(FILES_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Storage used and available for this site, when the browser reports it
+   */
+  async getStorageEstimate(): Promise<StorageEstimate | undefined> {
+    if (!navigator.storage?.estimate) return undefined;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : undefined;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = openDatabase(DATABASE_NAME, DATABASE_VERSION, database => {
+        if (!database.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          database.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(FILES_STORE)) {
+          database.createObjectStore(FILES_STORE, { keyPath: 'id' });
+        }
+      });
+      // Ask the browser not to evict the library under storage pressure
+      this.databasePromise.then(() => navigator.storage?.persist?.()).catch(() => undefined);
+      // Allow another attempt after a failed open (private browsing, blocked storage)
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+    return this.databasePromise;
+  }
+}
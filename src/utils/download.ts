@@ -0,0 +1,18 @@
+// How long the object URL stays valid; browsers read the blob after the click returns
+const REVOKE_DELAY_MS = 40000;
+
+/**
+ * Trigger a browser download for generated content
+ */
+export const downloadFile = (content: BlobPart, filename: string, type = 'text/plain') => {
+  const element = document.createElement('a');
+  const file = new Blob([content], { type });
+  const url = URL.createObjectURL(file);
+  element.href = url;
+  element.download = filename;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  // Revoking too soon can cancel a download the browser has not started reading yet
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
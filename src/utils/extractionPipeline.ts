@@ -0,0 +1,73 @@
+import { DocumentMetadata, ExtractionResult, PiiReplacement, PreprocessingSettings } from '../types';
+import { ExtractionProgress, FormatExtractorRegistry } from './formatExtractors';
+import { TextPreprocessor } from './textPreprocessing';
+import { ArchiveExpansion, expandArchive } from './archives';
+import { detectCompoundFormat } from './compoundFile';
+
+/**
+ * The CPU-heavy part of document processing: format extraction and text
+ * preprocessing, ZIP expansion and OLE2 sniffing. It runs inside extraction
+ * workers, so everything it touches must work without a DOM.
+ */
+
+export interface ExtractionJob {
+  // Extractor id chosen by file type detection
+  format: string;
+  // Character encoding chosen by the user for a text file
+  encoding?: string;
+  preprocessing: PreprocessingSettings;
+}
+
+export interface PreprocessedExtraction {
+  extraction: ExtractionResult;
+  preprocessedText: string;
+  preprocessingStats: NonNullable<DocumentMetadata['preprocessingStats']>;
+  piiReplacements?: PiiReplacement[];
+}
+
+// What an extraction worker does with the file it is given
+export type ExtractionTask =
+  | { kind: 'extract'; job: ExtractionJob }
+  | { kind: 'expandArchive' }
+  | { kind: 'sniffCompoundFile' };
+
+export interface ExtractionTaskResults {
+  extract: PreprocessedExtraction;
+  expandArchive: ArchiveExpansion;
+  sniffCompoundFile: string | undefined;
+}
+
+export type ExtractionTaskResult = ExtractionTaskResults[ExtractionTask['kind']];
+
+export const extractAndPreprocess = async (
+  file: File,
+  job: ExtractionJob,
+  onProgress: ExtractionProgress
+): Promise<PreprocessedExtraction> => {
+  const reader = await FormatExtractorRegistry.getInstance().get(job.format).load();
+  const extraction = await reader.extract(file, onProgress, { encoding: job.encoding });
+
+  onProgress(95, 'Preprocessing text...');
+  // Preprocess text for LLM consumption
+  const preprocessor = TextPreprocessor.getInstance();
+  const { text: preprocessedText, boilerplate, piiReplacements } = preprocessor.preprocess(extraction.text, job.preprocessing, extraction.pages);
+  const preprocessingStats = preprocessor.getPreprocessingStats(extraction.text, preprocessedText, boilerplate, piiReplacements);
+
+  return { extraction, preprocessedText, preprocessingStats, piiReplacements };
+};
+
+export const runExtractionTask = (
+  file: File,
+  task: ExtractionTask,
+  onProgress: ExtractionProgress,
+  signal?: AbortSignal
+): Promise<ExtractionTaskResult> => {
+  switch (task.kind) {
+    case 'extract':
+      return extractAndPreprocess(file, task.job, onProgress);
+    case 'expandArchive':
+      return expandArchive(file, message => onProgress(10, message), signal);
+    case 'sniffCompoundFile':
+      return detectCompoundFormat(file);
+  }
+};
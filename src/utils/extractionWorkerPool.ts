@@ -0,0 +1,218 @@
+import ExtractionWorker from '../workers/extraction.worker?worker';
+import { ExtractionProgress } from './formatExtractors';
+import {
+  ExtractionJob,
+  ExtractionTask,
+  ExtractionTaskResult,
+  ExtractionTaskResults,
+  PreprocessedExtraction,
+  runExtractionTask
+} from './extractionPipeline';
+import type { ArchiveExpansion } from './archives';
+
+export interface ExtractionWorkerRequest {
+  id: number;
+  name: string;
+  type: string;
+  lastModified: number;
+  // Transferred rather than copied, so large files are not duplicated in memory
+  buffer: ArrayBuffer;
+  task: ExtractionTask;
+}
+
+export type ExtractionWorkerResponse =
+  | { id: number; type: 'progress'; progress: number; message: string }
+  | { id: number; type: 'result'; result: ExtractionTaskResult }
+  | { id: number; type: 'error'; error: string };
+
+interface QueuedJob {
+  id: number;
+  file: File;
+  task: ExtractionTask;
+  onProgress: ExtractionProgress;
+  resolve: (result: ExtractionTaskResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Each worker holds a whole document plus PDF.js and possibly an OCR engine
+const MAX_WORKERS = 4;
+
+/**
+ * Runs document extraction in a bounded pool of Web Workers so large files
+ * never block the UI thread. Jobs beyond the pool size wait in order.
+ */
+export class ExtractionWorkerPool {
+  private static instance: ExtractionWorkerPool;
+  private size: number;
+  private workerCount = 0;
+  private idle: Worker[] = [];
+  private running = new Map<Worker, QueuedJob>();
+  private queue: QueuedJob[] = [];
+  private nextJobId = 1;
+
+  private constructor() {
+    // Leave a core for the UI thread
+    this.size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+  }
+
+  static getInstance(): ExtractionWorkerPool {
+    if (!ExtractionWorkerPool.instance) {
+      ExtractionWorkerPool.instance = new ExtractionWorkerPool();
+    }
+    return ExtractionWorkerPool.instance;
+  }
+
+  /**
+   * Extract and preprocess a file on the next free worker. Aborting the signal
+   * drops a queued job, or stops the worker running it.
+   */
+  run(
+    file: File,
+    job: ExtractionJob,
+    onProgress: ExtractionProgress,
+    signal?: AbortSignal
+  ): Promise<PreprocessedExtraction> {
+    return this.submit(file, { kind: 'extract', job }, onProgress, signal);
+  }
+
+  /**
+   * Unpack the supported documents in a ZIP archive on the next free worker
+   */
+  expandArchive(
+    archive: File,
+    onProgress?: (message: string) => void,
+    signal?: AbortSignal
+  ): Promise<ArchiveExpansion> {
+    return this.submit(archive, { kind: 'expandArchive' }, (_, message) => onProgress?.(message), signal);
+  }
+
+  /**
+   * Extractor id for an OLE2 compound file, parsed on the next free worker
+   */
+  sniffCompoundFile(file: File): Promise<string | undefined> {
+    return this.submit(file, { kind: 'sniffCompoundFile' }, () => {});
+  }
+
+  private async submit<T extends ExtractionTask>(
+    file: File,
+    task: T,
+    onProgress: ExtractionProgress,
+    signal?: AbortSignal
+  ): Promise<ExtractionTaskResults[T['kind']]> {
+    signal?.throwIfAborted();
+    if (typeof Worker === 'undefined') {
+      const result = await runExtractionTask(file, task, onProgress, signal);
+      signal?.throwIfAborted();
+      return result as ExtractionTaskResults[T['kind']];
+    }
+
+    return new Promise((resolve, reject) => {
+      const queued: QueuedJob = {
+        id: this.nextJobId++,
+        file,
+        task,
+        onProgress,
+        // Workers answer with the result type of the task they were given
+        resolve: result => resolve(result as ExtractionTaskResults[T['kind']]),
+        reject
+      };
+      signal?.addEventListener('abort', () => this.cancel(queued, signal.reason), { once: true });
+      this.queue.push(queued);
+      this.dispatch();
+    });
+  }
+
+  private cancel(queued: QueuedJob, reason: unknown): void {
+    const position = this.queue.indexOf(queued);
+    if (position >= 0) {
+      this.queue.splice(position, 1);
+      queued.reject(reason instanceof Error ? reason : new Error('Extraction cancelled'));
+      return;
+    }
+
+    const worker = [...this.running].find(([, running]) => running === queued)?.[0];
+    if (!worker) return;
+    // Extractors cannot be interrupted from outside, so the worker is replaced
+    this.discard(worker);
+    queued.reject(reason instanceof Error ? reason : new Error('Extraction cancelled'));
+    this.dispatch();
+  }
+
+  private discard(worker: Worker): void {
+    this.running.delete(worker);
+    worker.terminate();
+    this.workerCount--;
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workerCount < this.size ? this.createWorker() : undefined);
+      if (!worker) return;
+      this.start(worker, this.queue.shift()!);
+    }
+  }
+
+  private async start(worker: Worker, queued: QueuedJob): Promise<void> {
+    this.running.set(worker, queued);
+    try {
+      // Read the file only once a worker is free, so queued uploads do not all sit in memory
+      const buffer = await queued.file.arrayBuffer();
+      const request: ExtractionWorkerRequest = {
+        id: queued.id,
+        name: queued.file.name,
+        type: queued.file.type,
+        lastModified: queued.file.lastModified,
+        buffer,
+        task: queued.task
+      };
+      // Cancelled while reading the file; the worker has been replaced
+      if (this.running.get(worker) !== queued) return;
+      worker.postMessage(request, [buffer]);
+    } catch (error) {
+      // The job was cancelled and its worker discarded
+      if (this.running.get(worker) !== queued) return;
+      console.error(`Failed to read ${queued.file.name}:`, error);
+      queued.reject(new Error('Failed to read the file. Please try uploading it again.'));
+      this.release(worker);
+    }
+  }
+
+  private release(worker: Worker): void {
+    this.running.delete(worker);
+    this.idle.push(worker);
+    this.dispatch();
+  }
+
+  private createWorker(): Worker {
+    const worker = new ExtractionWorker();
+    this.workerCount++;
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerResponse>) => {
+      const response = event.data;
+      const queued = this.running.get(worker);
+      if (!queued || queued.id !== response.id) return;
+
+      switch (response.type) {
+        case 'progress':
+          queued.onProgress(response.progress, response.message);
+          return;
+        case 'result':
+          queued.resolve(response.result);
+          break;
+        case 'error':
+          queued.reject(new Error(response.error));
+          break;
+      }
+      this.release(worker);
+    };
+
+    worker.onerror = (event) => {
+      console.error('Extraction worker crashed:', event.message);
+      this.running.get(worker)?.reject(new Error('Extraction worker crashed. The file may be too large or malformed.'));
+      this.discard(worker);
+      this.dispatch();
+    };
+
+    return worker;
+  }
+}
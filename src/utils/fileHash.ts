@@ -0,0 +1,16 @@
+const toHex = (digest: ArrayBuffer): string =>
+  [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Content hash used as a file's identity, so the same file is recognized
+ * whatever its name and however often it is added
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+};
+
+/**
+ * SHA-256 of a string's UTF-8 bytes
+ */
+export const hashText = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
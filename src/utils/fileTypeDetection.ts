@@ -0,0 +1,203 @@
+import { FileTypeDetection } from '../types';
+import { FormatExtractorRegistry } from './formatExtractors';
+import { ExtractionWorkerPool } from './extractionWorkerPool';
+import { isArchiveFile } from './fileValidation';
+import { detectEncoding } from './textEncoding';
+
+/**
+ * Content-based file type detection
+ * Sniffs magic bytes (PDF header, ZIP and OOXML/OpenDocument contents, OLE2,
+ * RTF, UTF-16) and falls back to the extension or declared MIME type
+ * when the content gives no clear answer.
+ */
+
+// Format id for ZIP archives that are not an Office or OpenDocument file
+export const ARCHIVE_FORMAT = 'zip';
+
+// Generic text; the extension decides between plain text, Markdown, CSV and the like
+const TEXT_CONTENT = 'text-content';
+
+const SNIFF_BYTES = 8192;
+// The ZIP end-of-central-directory record sits within this many bytes of the end
+const ZIP_TAIL_BYTES = 65557;
+
+// Formats whose files are text, so any text content is consistent with them
+const TEXT_FORMATS = new Set(['text', 'markdown', 'csv', 'html', 'eml']);
+
+// Part that identifies each Office Open XML package type
+const OOXML_PARTS: Array<[string, string]> = [
+  ['word/document.xml', 'docx'],
+  ['xl/workbook.xml', 'xlsx'],
+  ['ppt/presentation.xml', 'pptx']
+];
+
+const OPEN_DOCUMENT_TEXT = 'application/vnd.oasis.opendocument.text';
+
+// PDF header at the start of the file, after at most a UTF-8 byte order mark
+// (as decoded in latin1) and whitespace; a text file that mentions %PDF- is not a PDF
+const PDF_HEADER = /^(?:\u00ef\u00bb\u00bf)?\s*%PDF-/;
+
+// Header lines that open an RFC 822 message
+const EMAIL_HEADER = /^(Return-Path|Received|From|To|Delivered-To|Message-ID|MIME-Version|Date|Subject|X-[\w-]+):/i;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await blob.slice(start, end).arrayBuffer());
+
+/**
+ * Names of the entries in a ZIP file, read from its central directory
+ */
+const readZipEntryNames = async (file: Blob): Promise<string[]> => {
+  const tailStart = Math.max(0, file.size - ZIP_TAIL_BYTES);
+  const tail = await readBytes(file, tailStart, file.size);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let record = -1;
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      record = offset;
+      break;
+    }
+  }
+  if (record < 0) return [];
+
+  const directorySize = view.getUint32(record + 12, true);
+  const directoryOffset = view.getUint32(record + 16, true);
+  // ZIP64 archives mark the 32-bit fields as overflowed; their names are not needed here
+  if (directoryOffset === 0xffffffff || directoryOffset + directorySize > file.size) return [];
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const entries = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const decoder = new TextDecoder('utf-8');
+  const names: string[] = [];
+
+  for (let offset = 0; offset + 46 <= directory.length && entries.getUint32(offset, true) === 0x02014b50;) {
+    const nameLength = entries.getUint16(offset + 28, true);
+    const extraLength = entries.getUint16(offset + 30, true);
+    const commentLength = entries.getUint16(offset + 32, true);
+    names.push(decoder.decode(directory.subarray(offset + 46, offset + 46 + nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+};
+
+const sniffZip = async (file: Blob, head: Uint8Array): Promise<string | undefined> => {
+  // OpenDocument stores an uncompressed "mimetype" entry first
+  const firstName = new TextDecoder('latin1').decode(head.subarray(30, 38));
+  if (firstName === 'mimetype') {
+    const length = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint32(18, true);
+    const mimeType = new TextDecoder('latin1').decode(head.subarray(38, 38 + Math.min(length, 100)));
+    if (mimeType === OPEN_DOCUMENT_TEXT) return 'odt';
+    // Spreadsheets, presentations, EPUB and other packages that are not plain archives
+    return undefined;
+  }
+
+  const names = await readZipEntryNames(file);
+  if (names.includes('[Content_Types].xml')) {
+    return OOXML_PARTS.find(([part]) => names.includes(part))?.[1];
+  }
+  return ARCHIVE_FORMAT;
+};
+
+/**
+ * OLE2 files are only told apart by their streams, which means parsing the
+ * whole file, so that runs in an extraction worker
+ */
+const sniffCompoundFile = (file: File): Promise<string | undefined> =>
+  ExtractionWorkerPool.getInstance().sniffCompoundFile(file).catch(() => undefined);
+
+const isTextContent = (bytes: Uint8Array): boolean => {
+  let control = 0;
+  for (const byte of bytes) {
+    if (byte === 0) return false;
+    // Tab, line feed, form feed, carriage return and escape appear in real text
+    if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) control++;
+  }
+  return control <= bytes.length * 0.02;
+};
+
+const sniffText = (text: string): string => {
+  const start = text.trimStart();
+  if (start.startsWith('{\\rtf')) return 'rtf';
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html[\s>])/i.test(start)) return 'html';
+
+  // A message starts with a header block that names its sender
+  const headerBlock = start.split(/\r?\n\r?\n/)[0].split(/\r?\n/).filter(line => !/^[ \t]/.test(line));
+  if (headerBlock.length >= 2 && EMAIL_HEADER.test(headerBlock[0])
+    && headerBlock.every(line => /^[\w-]+:/.test(line))
+    && headerBlock.some(line => /^From:/i.test(line))
+    && headerBlock.some(line => /^(Date|Message-ID|Received|MIME-Version):/i.test(line))) {
+    return 'eml';
+  }
+  return TEXT_CONTENT;
+};
+
+/**
+ * Identify a file's format from its first bytes
+ */
+const sniffContent = async (file: File): Promise<string | undefined> => {
+  const head = await readBytes(file, 0, SNIFF_BYTES);
+
+  if (PDF_HEADER.test(new TextDecoder('latin1').decode(head.subarray(0, 1024)))) return 'pdf';
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0x50, 0x4b, 0x05, 0x06])) return sniffZip(file, head);
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return sniffCompoundFile(file);
+
+  // UTF-16 text contains NUL bytes, so decode it before the binary check
+  const encoding = detectEncoding(head);
+  if (encoding.startsWith('utf-16')) {
+    return sniffText(new TextDecoder(encoding).decode(head));
+  }
+  if (!isTextContent(head)) return undefined;
+  return sniffText(new TextDecoder('utf-8').decode(head));
+};
+
+const formatLabel = (format: string | undefined): string => {
+  if (format === ARCHIVE_FORMAT) return 'ZIP archive';
+  if (format === TEXT_CONTENT) return 'text';
+  if (!format) return 'an unsupported binary format';
+  return FormatExtractorRegistry.getInstance().get(format).label;
+};
+
+/**
+ * Work out how a file should be processed. Binary signatures win over the
+ * extension; text content defers to the extension to pick among text formats.
+ */
+export const detectFileType = async (file: File): Promise<FileTypeDetection> => {
+  const declaredFormat = FormatExtractorRegistry.getInstance().resolve(file)?.id
+    ?? (isArchiveFile(file) ? ARCHIVE_FORMAT : undefined);
+
+  let detectedFormat: string | undefined;
+  try {
+    detectedFormat = await sniffContent(file);
+  } catch (error) {
+    console.warn(`Could not read ${file.name} for type detection:`, error);
+    return { declaredFormat, format: declaredFormat };
+  }
+
+  if (detectedFormat === TEXT_CONTENT) {
+    // Plain text is consistent with any text format, and is read as plain text otherwise
+    const format = declaredFormat && TEXT_FORMATS.has(declaredFormat) ? declaredFormat : 'text';
+    const warning = declaredFormat && format !== declaredFormat
+      ? `Declared as ${formatLabel(declaredFormat)} but the content is plain text; processing as text.`
+      : undefined;
+    return { detectedFormat, declaredFormat, format, warning };
+  }
+
+  if (!detectedFormat) {
+    // Unrecognized binary content cannot be any of the text formats
+    if (declaredFormat && TEXT_FORMATS.has(declaredFormat)) {
+      return {
+        declaredFormat,
+        warning: `Declared as ${formatLabel(declaredFormat)} but the content is binary.`
+      };
+    }
+    return { declaredFormat, format: declaredFormat };
+  }
+
+  const warning = declaredFormat && declaredFormat !== detectedFormat
+    ? `Declared as ${formatLabel(declaredFormat)} but the content is ${formatLabel(detectedFormat)}; processing as ${formatLabel(detectedFormat)}.`
+    : undefined;
+  return { detectedFormat, declaredFormat, format: detectedFormat, warning };
+};
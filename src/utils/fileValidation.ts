@@ -1,23 +1,45 @@
-const ALLOWED_FILE_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-  'application/msword', // .doc
-  'text/plain',
-] as const;
+import { FileTypeDetection, UploadedFile } from '../types';
+import { fileExtension, FormatExtractorRegistry } from './formatExtractors';
 
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+const ARCHIVE_EXTENSIONS = ['.zip'];
+const ARCHIVE_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+/**
+ * ZIP archives are unpacked into their documents before extraction
+ */
+export const isArchiveFile = (file: Pick<File, 'name' | 'type'>): boolean => {
+  const extension = fileExtension(file.name);
+  // Office files are ZIP containers too, so the extension decides when there is one
+  return extension ? ARCHIVE_EXTENSIONS.includes(extension) : ARCHIVE_MIME_TYPES.includes(file.type);
+};
+
+/**
+ * Value for the upload input's accept attribute: every document format plus archives
+ */
+export const getAcceptList = (): string =>
+  [FormatExtractorRegistry.getInstance().getAcceptList(), ...ARCHIVE_EXTENSIONS, ...ARCHIVE_MIME_TYPES].join(',');
+
+export const describeSupportedFormats = (): string =>
+  `${FormatExtractorRegistry.getInstance().describeSupportedFormats()} and ZIP archives of them`;
 
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
 }
 
-export const validateFile = (file: File): ValidationResult => {
-  // Check file type
-  if (!ALLOWED_FILE_TYPES.includes(file.type as any)) {
+export const validateFile = (file: File, detection?: FileTypeDetection): ValidationResult => {
+  // Check file type, by content when it has been sniffed
+  const supported = detection
+    ? detection.format !== undefined
+    : FormatExtractorRegistry.getInstance().resolve(file) !== undefined || isArchiveFile(file);
+  if (!supported) {
     return {
       isValid: false,
-      error: `Unsupported file type. Please upload PDF, Word document (.docx, .doc), or text file.`
+      error: detection?.warning
+        ? `Unsupported file type. ${detection.warning}`
+        : `Unsupported file type. Supported formats: ${describeSupportedFormats()}.`
     };
   }
 
@@ -41,11 +63,22 @@ export const validateFile = (file: File): ValidationResult => {
   return { isValid: true };
 };
 
-export const getFileTypeIcon = (fileType: string): string => {
-  if (fileType === 'application/pdf') return '📄';
-  if (fileType.includes('word') || fileType.includes('document')) return '📝';
-  if (fileType === 'text/plain') return '📃';
-  return '📄';
+export const getFileTypeIcon = (file: Pick<File, 'name' | 'type'>): string =>
+  FormatExtractorRegistry.getInstance().resolve(file)?.icon ?? (isArchiveFile(file) ? '🗜️' : '📄');
+
+/**
+ * Short type label for a file ("PDF", "PPTX"); browsers often leave file.type empty
+ */
+export const getFileTypeLabel = (file: Pick<File, 'name' | 'type'>): string =>
+  fileExtension(file.name).slice(1).toUpperCase() || file.type.split('/').pop()?.toUpperCase() || 'FILE';
+
+/**
+ * Whether the file is read as text, so the user can pick its character encoding
+ */
+export const hasSelectableEncoding = (file: UploadedFile): boolean => {
+  const registry = FormatExtractorRegistry.getInstance();
+  const format = file.detection?.format ?? registry.resolve(file.file)?.id;
+  return format !== undefined && registry.list().some(extractor => extractor.id === format && extractor.decodesText);
 };
 
 export const formatFileSize = (bytes: number): string => {
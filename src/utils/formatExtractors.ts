@@ -0,0 +1,206 @@
+import { ExtractionResult } from '../types';
+
+/**
+ * Format extractors
+ * Each input format declares the files it handles and turns one into an
+ * ExtractionResult; DocumentExtractor does the shared preprocessing and tokenizing.
+ * The readers, and the libraries behind them, are loaded on first use, which
+ * only happens in extraction workers, so they stay out of the main bundle.
+ */
+
+export type ExtractionProgress = (progress: number, message: string) => void;
+
+export interface FormatExtractionOptions {
+  // Character encoding chosen by the user, for extractors that decode text
+  encoding?: string;
+}
+
+export interface FormatReader {
+  extract(file: File, onProgress: ExtractionProgress, options?: FormatExtractionOptions): Promise<ExtractionResult>;
+}
+
+export interface FormatExtractor {
+  id: string;
+  label: string;
+  icon: string;
+  // Lower-case extensions including the dot
+  extensions: string[];
+  mimeTypes: string[];
+  // Reads the file as text, in the detected or user-chosen encoding
+  decodesText?: boolean;
+  load(): Promise<FormatReader>;
+}
+
+/**
+ * Lower-case extension of a file name including the dot, or '' when there is none
+ */
+export const fileExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+const BUILT_IN_EXTRACTORS: FormatExtractor[] = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    icon: '📄',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    load: () => import('./formats/pdf').then(module => module.pdfExtractor)
+  },
+  {
+    id: 'docx',
+    label: 'Word (.docx)',
+    icon: '📝',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    load: () => import('./formats/docx').then(module => module.docxExtractor)
+  },
+  {
+    id: 'doc',
+    label: 'Word 97-2003 (.doc)',
+    icon: '📝',
+    extensions: ['.doc'],
+    mimeTypes: ['application/msword'],
+    load: () => import('./formats/doc').then(module => module.docExtractor)
+  },
+  {
+    id: 'odt',
+    label: 'OpenDocument (.odt)',
+    icon: '📝',
+    extensions: ['.odt'],
+    mimeTypes: ['application/vnd.oasis.opendocument.text'],
+    load: () => import('./formats/odt').then(module => module.odtExtractor)
+  },
+  {
+    id: 'rtf',
+    label: 'Rich Text (.rtf)',
+    icon: '📝',
+    extensions: ['.rtf'],
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    load: () => import('./formats/rtf').then(module => module.rtfExtractor)
+  },
+  {
+    id: 'text',
+    label: 'Text (.txt)',
+    icon: '📃',
+    extensions: ['.txt', '.text', '.log'],
+    mimeTypes: ['text/plain'],
+    decodesText: true,
+    load: () => import('./formats/text').then(module => module.plainTextExtractor)
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown (.md)',
+    icon: '📃',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    decodesText: true,
+    load: () => import('./formats/text').then(module => module.markdownExtractor)
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    icon: '🌐',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    decodesText: true,
+    load: () => import('./formats/html').then(module => module.htmlExtractor)
+  },
+  {
+    id: 'csv',
+    label: 'CSV',
+    icon: '📊',
+    extensions: ['.csv', '.tsv'],
+    mimeTypes: ['text/csv', 'text/tab-separated-values'],
+    decodesText: true,
+    load: () => import('./formats/spreadsheet').then(module => module.csvExtractor)
+  },
+  {
+    id: 'xlsx',
+    label: 'Excel (.xlsx)',
+    icon: '📊',
+    extensions: ['.xlsx', '.xlsm'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel.sheet.macroEnabled.12'
+    ],
+    load: () => import('./formats/spreadsheet').then(module => module.xlsxExtractor)
+  },
+  {
+    id: 'pptx',
+    label: 'PowerPoint (.pptx)',
+    icon: '📽️',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    load: () => import('./formats/pptx').then(module => module.pptxExtractor)
+  },
+  {
+    id: 'eml',
+    label: 'Email (.eml)',
+    icon: '✉️',
+    extensions: ['.eml'],
+    mimeTypes: ['message/rfc822'],
+    load: () => import('./formats/eml').then(module => module.emlExtractor)
+  }
+];
+
+export class FormatExtractorRegistry {
+  private static instance: FormatExtractorRegistry;
+  private extractors = new Map<string, FormatExtractor>();
+
+  private constructor() {
+    BUILT_IN_EXTRACTORS.forEach(extractor => this.register(extractor));
+  }
+
+  static getInstance(): FormatExtractorRegistry {
+    if (!FormatExtractorRegistry.instance) {
+      FormatExtractorRegistry.instance = new FormatExtractorRegistry();
+    }
+    return FormatExtractorRegistry.instance;
+  }
+
+  /**
+   * Register an extractor, replacing any extractor with the same id
+   */
+  register(extractor: FormatExtractor): void {
+    this.extractors.set(extractor.id, extractor);
+  }
+
+  get(id: string): FormatExtractor {
+    const extractor = this.extractors.get(id);
+    if (!extractor) {
+      throw new Error(`Unknown document format: ${id}`);
+    }
+    return extractor;
+  }
+
+  list(): FormatExtractor[] {
+    return [...this.extractors.values()];
+  }
+
+  /**
+   * Find the extractor for a file. The extension wins over the MIME type because
+   * browsers report empty or generic types (e.g. for .md and .eml) on many systems.
+   */
+  resolve(file: Pick<File, 'name' | 'type'>): FormatExtractor | undefined {
+    const extension = fileExtension(file.name);
+    const extractors = this.list();
+    return extractors.find(extractor => extension && extractor.extensions.includes(extension))
+      ?? extractors.find(extractor => file.type && extractor.mimeTypes.includes(file.type));
+  }
+
+  /**
+   * Value for a file input's accept attribute
+   */
+  getAcceptList(): string {
+    return this.list().flatMap(extractor => [...extractor.extensions, ...extractor.mimeTypes]).join(',');
+  }
+
+  /**
+   * Human-readable list of supported formats ("PDF, Word (.docx), ...")
+   */
+  describeSupportedFormats(): string {
+    return this.list().map(extractor => extractor.label).join(', ');
+  }
+}
@@ -0,0 +1,252 @@
+import type { FormatReader } from '../formatExtractors';
+import { CompoundFile } from '../compoundFile';
+import { extractSummaryInformation } from '../documentMetadata';
+import { escapeHtml, htmlToMarkdown, htmlToText } from '../htmlText';
+import { toMarkdownTable } from '../tables';
+
+/**
+ * Word 97-2003 (.doc) reader
+ * Finds the main document text through the piece table in the CLX, which
+ * covers both normal and fast-saved documents, then turns Word's control
+ * characters into paragraphs and tables.
+ */
+
+const WORD_IDENT = 0xa5ec;
+// Word 97 and later; earlier versions use a different file layout
+const MIN_NFIB = 0x00c1;
+
+// FibBase flags
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_TABLE_STREAM_1 = 0x0200;
+
+// Index of fcClx/lcbClx in FibRgFcLcb97
+const CLX_INDEX = 33;
+
+// FcCompressed: text stored as 8-bit Windows-1252 at half the given offset
+const FC_COMPRESSED = 0x40000000;
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+interface FileInformationBlock {
+  tableStream: string;
+  mainTextLength: number;
+  clxOffset: number;
+  clxLength: number;
+}
+
+const readFib = (word: DataView): FileInformationBlock => {
+  if (word.getUint16(0, true) !== WORD_IDENT) {
+    throw new Error('WordDocument stream has no Word signature');
+  }
+  if (word.getUint16(2, true) < MIN_NFIB) {
+    throw new Error('Word 6/95 documents are not supported. Please re-save the file in a newer Word format.');
+  }
+
+  const flags = word.getUint16(0x0a, true);
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error('Password-protected .doc files are not supported. Please remove the password and try again.');
+  }
+
+  // FibBase (32 bytes), then variable-length FibRgW, FibRgLw and FibRgFcLcb arrays
+  const shortCount = word.getUint16(32, true);
+  const longsStart = 34 + shortCount * 2 + 2;
+  const longCount = word.getUint16(longsStart - 2, true);
+  const fcLcbStart = longsStart + longCount * 4 + 2;
+
+  return {
+    tableStream: flags & FLAG_TABLE_STREAM_1 ? '1Table' : '0Table',
+    // ccpText is the third entry of FibRgLw97
+    mainTextLength: word.getInt32(longsStart + 12, true),
+    clxOffset: word.getUint32(fcLcbStart + CLX_INDEX * 8, true),
+    clxLength: word.getUint32(fcLcbStart + CLX_INDEX * 8 + 4, true)
+  };
+};
+
+/**
+ * Read the piece table (PlcPcd) from the CLX, skipping any leading
+ * property modifier blocks (Prc)
+ */
+const readPieces = (table: Uint8Array, offset: number, length: number): Piece[] => {
+  const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  const end = Math.min(offset + length, table.length);
+  let position = offset;
+
+  while (position < end && view.getUint8(position) === 0x01) {
+    position += 3 + view.getInt16(position + 1, true);
+  }
+  if (position >= end || view.getUint8(position) !== 0x02) {
+    throw new Error('Document piece table not found');
+  }
+
+  const plcLength = view.getUint32(position + 1, true);
+  const plcStart = position + 5;
+  // (n + 1) character positions followed by n 8-byte piece descriptors
+  const count = (plcLength - 4) / 12;
+  const pieces: Piece[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const fcValue = view.getUint32(plcStart + (count + 1) * 4 + index * 8 + 2, true);
+    const compressed = (fcValue & FC_COMPRESSED) !== 0;
+    pieces.push({
+      cpStart: view.getUint32(plcStart + index * 4, true),
+      cpEnd: view.getUint32(plcStart + (index + 1) * 4, true),
+      fc: compressed ? (fcValue & ~FC_COMPRESSED) / 2 : fcValue,
+      compressed
+    });
+  }
+  return pieces;
+};
+
+/**
+ * Assemble the main document text (CP 0 to ccpText) from its pieces, which
+ * fast-saved documents store out of order and in mixed encodings
+ */
+const readMainText = (word: Uint8Array, pieces: Piece[], length: number): string => {
+  const ansi = new TextDecoder('windows-1252');
+  const unicode = new TextDecoder('utf-16le');
+  let text = '';
+
+  for (const piece of pieces) {
+    if (piece.cpStart >= length) break;
+    const characters = Math.min(piece.cpEnd, length) - piece.cpStart;
+    if (characters <= 0) continue;
+
+    const byteLength = piece.compressed ? characters : characters * 2;
+    const bytes = word.subarray(piece.fc, piece.fc + byteLength);
+    text += piece.compressed ? ansi.decode(bytes) : unicode.decode(bytes);
+  }
+  return text;
+};
+
+/**
+ * Keep field results and drop field codes: \x13 code \x14 result \x15
+ */
+const stripFieldCodes = (text: string): string => {
+  let result = '';
+  // One entry per open field: true while still inside its code part
+  const fields: boolean[] = [];
+
+  for (const char of text) {
+    if (char === '\x13') {
+      fields.push(true);
+    } else if (char === '\x14') {
+      if (fields.length > 0) fields[fields.length - 1] = false;
+    } else if (char === '\x15') {
+      fields.pop();
+    } else if (!fields.includes(true)) {
+      result += char;
+    }
+  }
+  return result;
+};
+
+// Word control characters that are not plain text; cell marks (\x07) and
+// paragraph marks (\r) are handled while building paragraphs and tables
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\x0b': '\n', // Line break
+  '\x0c': '\r', // Page or section break
+  '\x1e': '-', // Non-breaking hyphen
+  '\x1f': '', // Optional hyphen
+  // Anchors for footnote references, pictures, comments and drawn objects
+  ...Object.fromEntries([0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x08].map(code => [String.fromCharCode(code), '']))
+};
+
+/**
+ * Rewrite Word's text stream as simple HTML. Paragraphs end in \r; table
+ * cells end in \x07 and a row ends with one more \x07 after its last cell.
+ * Without the paragraph properties an empty last cell reads as a row end, and
+ * paragraphs before the first cell mark of a row stay outside the table.
+ */
+const wordTextToHtml = (text: string): string => {
+  const cleaned = [...stripFieldCodes(text)].map(char => SPECIAL_CHARACTERS[char] ?? char).join('');
+
+  const paragraph = (content: string) => `<p>${escapeHtml(content).replace(/\n/g, '<br>')}</p>`;
+  const tableRow = (cells: string[]) =>
+    `<tr>${cells.map(content => `<td>${content.split('\r').map(paragraph).join('')}</td>`).join('')}</tr>`;
+
+  let html = '';
+  let rows: string[] = [];
+  let row: string[] = [];
+  let buffer = '';
+
+  const flushTable = () => {
+    if (row.length > 0) rows.push(tableRow(row));
+    if (rows.length > 0) html += `<table>${rows.join('')}</table>`;
+    rows = [];
+    row = [];
+  };
+
+  for (let index = 0; index < cleaned.length; index++) {
+    const char = cleaned[index];
+
+    if (char === '\x07') {
+      if (buffer.length === 0 && row.length > 0 && cleaned[index - 1] === '\x07') {
+        rows.push(tableRow(row));
+        row = [];
+      } else {
+        row.push(buffer);
+        buffer = '';
+      }
+    } else if (char === '\r') {
+      if (row.length > 0) {
+        // A paragraph inside a cell that has more to come
+        buffer += '\r';
+      } else {
+        flushTable();
+        html += paragraph(buffer);
+        buffer = '';
+      }
+    } else {
+      buffer += char;
+    }
+  }
+
+  flushTable();
+  if (buffer.trim()) html += paragraph(buffer);
+  return html;
+};
+
+export const docExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(20, 'Reading Word 97-2003 document...');
+      const compoundFile = new CompoundFile(new Uint8Array(await file.arrayBuffer()));
+
+      const word = compoundFile.getStream('WordDocument');
+      if (!word) {
+        throw new Error('Missing WordDocument stream');
+      }
+      const fib = readFib(new DataView(word.buffer, word.byteOffset, word.byteLength));
+      const table = compoundFile.getStream(fib.tableStream);
+      if (!table) {
+        throw new Error(`Missing ${fib.tableStream} stream`);
+      }
+
+      onProgress(50, 'Reading piece table...');
+      const pieces = readPieces(table, fib.clxOffset, fib.clxLength);
+
+      onProgress(70, 'Extracting text content...');
+      const html = wordTextToHtml(readMainText(word, pieces, fib.mainTextLength));
+      const { text, tables } = htmlToText(html);
+
+      onProgress(90, 'Reading document properties...');
+      const summary = compoundFile.getStream('\x05SummaryInformation');
+
+      return {
+        text,
+        markdown: htmlToMarkdown(html),
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties: summary ? extractSummaryInformation(summary) : {}
+      };
+    } catch (error) {
+      console.error('DOC extraction error:', error);
+      const reason = error instanceof Error && /not supported/.test(error.message) ? ` ${error.message}` : '';
+      throw new Error(`Failed to extract text from Word 97-2003 document.${reason || ' Please ensure the file is not corrupted.'}`);
+    }
+  }
+};
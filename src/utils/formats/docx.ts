@@ -0,0 +1,40 @@
+import type { FormatReader } from '../formatExtractors';
+import { extractOfficeProperties } from '../documentMetadata';
+import { htmlToMarkdown, htmlToText } from '../htmlText';
+import { toMarkdownTable } from '../tables';
+
+export const docxExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(20, 'Reading Word document...');
+
+      const mammoth = await import('mammoth');
+      const { default: JSZip } = await import('jszip');
+      const arrayBuffer = await file.arrayBuffer();
+
+      onProgress(60, 'Extracting text content...');
+
+      // Convert through HTML so table structure is kept; images are dropped
+      const result = await mammoth.convertToHtml({ arrayBuffer }, {
+        convertImage: mammoth.images.imgElement(() => Promise.resolve({ src: '' }))
+      });
+
+      if (result.messages.length > 0) {
+        console.warn('Word extraction warnings:', result.messages);
+      }
+
+      onProgress(85, 'Reading document properties...');
+      const { text, tables } = htmlToText(result.value);
+      const properties = await extractOfficeProperties(await JSZip.loadAsync(arrayBuffer));
+      return {
+        text,
+        markdown: htmlToMarkdown(result.value),
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties
+      };
+    } catch (error) {
+      console.error('DOCX extraction error:', error);
+      throw new Error('Failed to extract text from Word document. Please ensure the file is not corrupted.');
+    }
+  }
+};
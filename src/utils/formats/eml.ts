@@ -0,0 +1,216 @@
+import type { FormatReader } from '../formatExtractors';
+import { extractEmailProperties } from '../documentMetadata';
+import { htmlToMarkdown, htmlToText } from '../htmlText';
+import { toMarkdownTable } from '../tables';
+
+/**
+ * Email (RFC 822/MIME) reader
+ * Decodes headers and multipart bodies, preferring the plain-text alternative
+ * over HTML, and lists attachments without extracting them.
+ */
+
+// Headers shown above the body, in this order
+const DISPLAYED_HEADERS: Array<[string, string]> = [
+  ['from', 'From'], ['to', 'To'], ['cc', 'Cc'], ['date', 'Date'], ['subject', 'Subject']
+];
+
+interface MimePart {
+  headers: Map<string, string>;
+  // Raw body as a binary string (one character per byte)
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface EmailBody {
+  plain: string[];
+  html: string[];
+  attachments: string[];
+}
+
+const bytesOf = (binary: string): Uint8Array => Uint8Array.from(binary, char => char.charCodeAt(0));
+
+// Unknown or missing charsets fall back to UTF-8, which also covers plain ASCII
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeBase64 = (data: string): string => {
+  try {
+    return atob(data.replace(/[^A-Za-z0-9+/=]/g, ''));
+  } catch {
+    return '';
+  }
+};
+
+const decodeQuotedPrintable = (data: string, header = false): string => {
+  // In encoded words underscores stand for spaces
+  const text = header ? data.replace(/_/g, ' ') : data.replace(/=\r?\n/g, '');
+  return text.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+/**
+ * Decode RFC 2047 encoded words ("=?utf-8?B?...?=") in a header value
+ */
+const decodeHeader = (value: string): string =>
+  value
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, data: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? decodeBase64(data) : decodeQuotedPrintable(data, true);
+      // A language suffix ("utf-8*en") is not part of the charset name
+      return decodeBytes(bytesOf(binary), charset.split('*')[0]);
+    });
+
+const parsePart = (raw: string): MimePart => {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace and belong to the previous header
+  headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Repeated headers (e.g. Received) keep the first occurrence
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+
+  return { headers, body };
+};
+
+/**
+ * Split a structured header such as Content-Type into its value and parameters
+ */
+const parseHeaderValue = (header: string | undefined): HeaderValue => {
+  const [value, ...rest] = (header ?? '').split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(param => {
+    const equals = param.indexOf('=');
+    if (equals < 0) return;
+    const name = param.slice(0, equals).trim().toLowerCase().replace(/\*$/, '');
+    params[name] = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+  });
+  return { value: value.trim().toLowerCase(), params };
+};
+
+const decodeBody = (part: MimePart): string => {
+  const encoding = part.headers.get('content-transfer-encoding')?.trim().toLowerCase();
+  if (encoding === 'base64') return decodeBase64(part.body);
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return part.body;
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  // The preamble before the first delimiter and the epilogue after the last are ignored
+  const sections = body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+  for (const section of sections.slice(1)) {
+    if (section.startsWith('--')) break;
+    parts.push(section.replace(/^[ \t]*\r?\n/, ''));
+  }
+  return parts;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${Math.round(bytes / 1024).toLocaleString()} KB`;
+
+const collectBody = (part: MimePart, result: EmailBody) => {
+  const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+  const fileName = decodeHeader(disposition.params.filename ?? contentType.params.name ?? '');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const children = splitMultipart(part.body, contentType.params.boundary).map(parsePart);
+
+    if (contentType.value === 'multipart/alternative') {
+      // Alternatives are the same content; take plain text when offered, else the richest other version
+      const plain = children.find(child => parseHeaderValue(child.headers.get('content-type') ?? 'text/plain').value === 'text/plain');
+      collectBody(plain ?? children[children.length - 1], result);
+      return;
+    }
+    children.forEach(child => collectBody(child, result));
+    return;
+  }
+
+  const isInlineText = disposition.value !== 'attachment' && !fileName
+    && (contentType.value === 'text/plain' || contentType.value === 'text/html');
+
+  if (!isInlineText) {
+    if (part.body.trim().length > 0 || fileName) {
+      const size = decodeBody(part).length;
+      result.attachments.push(`${fileName || 'unnamed'} (${contentType.value}, ${formatSize(size)})`);
+    }
+    return;
+  }
+
+  const text = decodeBytes(bytesOf(decodeBody(part)), contentType.params.charset);
+  if (contentType.value === 'text/html') result.html.push(text);
+  else result.plain.push(text);
+};
+
+export const emlExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(30, 'Reading email message...');
+      // Keep bytes as-is so each part can be decoded with its own charset
+      const raw = new TextDecoder('latin1').decode(await file.arrayBuffer());
+      const message = parsePart(raw);
+      if (message.headers.size === 0) {
+        throw new Error('Missing message headers');
+      }
+
+      onProgress(60, 'Decoding message body...');
+      const headers = new Map([...message.headers].map(([name, value]) => [name, decodeHeader(value)]));
+      const body: EmailBody = { plain: [], html: [], attachments: [] };
+      collectBody(message, body);
+
+      // Plain-text parts are preferred; HTML only fills in when a message has no plain text at all
+      const fromHtml = body.plain.length === 0 ? body.html.map(htmlToText) : [];
+      const bodyText = body.plain.length > 0
+        ? body.plain.map(text => text.replace(/\r\n/g, '\n').trim()).join('\n\n')
+        : fromHtml.map(result => result.text).join('\n\n');
+      const bodyMarkdown = body.plain.length > 0 ? bodyText : body.html.map(htmlToMarkdown).join('\n\n');
+      const tables = fromHtml.flatMap(result => result.tables);
+
+      const headerLines = DISPLAYED_HEADERS
+        .filter(([name]) => headers.get(name))
+        .map(([name, label]) => [label, headers.get(name)] as const);
+      const attachments = body.attachments.length > 0
+        ? `Attachments:\n${body.attachments.map(attachment => `- ${attachment}`).join('\n')}`
+        : '';
+
+      const text = [
+        headerLines.map(([label, value]) => `${label}: ${value}`).join('\n'),
+        bodyText,
+        attachments
+      ].filter(Boolean).join('\n\n');
+
+      const markdown = [
+        headers.get('subject') ? `# ${headers.get('subject')}` : '',
+        headerLines.filter(([label]) => label !== 'Subject').map(([label, value]) => `**${label}:** ${value}  `).join('\n').trim(),
+        bodyMarkdown,
+        attachments
+      ].filter(Boolean).join('\n\n');
+
+      return {
+        text,
+        markdown,
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties: extractEmailProperties(headers)
+      };
+    } catch (error) {
+      console.error('Email extraction error:', error);
+      throw new Error('Failed to read email message. Please ensure the file is a valid .eml file.');
+    }
+  }
+};
@@ -0,0 +1,29 @@
+import type { FormatReader } from '../formatExtractors';
+import { extractHtmlProperties } from '../documentMetadata';
+import { htmlToMarkdown, htmlToText } from '../htmlText';
+import { parseMarkup } from '../markupParser';
+import { toMarkdownTable } from '../tables';
+import { readText } from '../textEncoding';
+
+export const htmlExtractor: FormatReader = {
+  async extract(file, onProgress, options = {}) {
+    try {
+      onProgress(30, 'Reading HTML page...');
+      const { text: html, encoding } = await readText(file, options.encoding);
+
+      onProgress(60, 'Converting page content...');
+      const { text, tables } = htmlToText(html);
+      const properties = extractHtmlProperties(parseMarkup(html, { html: true }));
+
+      return {
+        text,
+        markdown: htmlToMarkdown(html),
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties: { ...properties, encoding }
+      };
+    } catch (error) {
+      console.error('HTML extraction error:', error);
+      throw new Error('Failed to extract text from HTML file.');
+    }
+  }
+};
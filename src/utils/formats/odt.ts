@@ -0,0 +1,157 @@
+import type { FormatReader } from '../formatExtractors';
+import { extractOpenDocumentProperties } from '../documentMetadata';
+import { escapeHtml, htmlToMarkdown, htmlToText } from '../htmlText';
+import { childElements, findAll, findFirst, MarkupElement, MarkupNode, parseMarkup } from '../markupParser';
+import { toMarkdownTable } from '../tables';
+
+/**
+ * OpenDocument text reader
+ * Rewrites content.xml as simple HTML so ODT shares the DOCX text and
+ * Markdown conversion, including tables and emphasis.
+ */
+
+// Elements whose content is not part of the body text
+const SKIPPED_ELEMENTS = new Set([
+  'office:annotation', 'text:note-body', 'text:tracked-changes', 'text:sequence-decls',
+  'text:variable-decls', 'text:user-field-decls', 'office:forms', 'draw:image'
+]);
+
+interface SpanStyle {
+  bold: boolean;
+  italic: boolean;
+}
+
+// Bold and italic automatic styles by name; ODT never marks emphasis inline
+const readSpanStyles = (root: MarkupElement): Map<string, SpanStyle> => {
+  const styles = new Map<string, SpanStyle>();
+  findAll(root, 'style:style').forEach(style => {
+    const properties = findFirst(style, 'style:text-properties')?.attributes ?? {};
+    const bold = properties['fo:font-weight'] === 'bold' || Number(properties['fo:font-weight']) >= 600;
+    const italic = properties['fo:font-style'] === 'italic';
+    if (bold || italic) styles.set(style.attributes['style:name'], { bold, italic });
+  });
+  return styles;
+};
+
+const contentToHtml = (root: MarkupElement): string => {
+  const styles = readSpanStyles(root);
+
+  const inline = (node: MarkupNode): string => {
+    if (node.type === 'text') return escapeHtml(node.text);
+    if (SKIPPED_ELEMENTS.has(node.name)) return '';
+
+    switch (node.name) {
+      case 'text:s':
+        return ' '.repeat(Math.max(1, Number(node.attributes['text:c']) || 1));
+      case 'text:tab':
+        return '\t';
+      case 'text:line-break':
+        return '<br>';
+      case 'text:note-citation':
+        return `[${escapeHtml(node.children.map(inline).join(''))}]`;
+      case 'text:a': {
+        const href = node.attributes['xlink:href'];
+        const content = node.children.map(inline).join('');
+        return href ? `<a href="${escapeHtml(href)}">${content}</a>` : content;
+      }
+      case 'text:span': {
+        let content = node.children.map(inline).join('');
+        const style = styles.get(node.attributes['text:style-name']);
+        if (style?.italic) content = `<em>${content}</em>`;
+        if (style?.bold) content = `<strong>${content}</strong>`;
+        return content;
+      }
+      default:
+        return node.children.map(inline).join('');
+    }
+  };
+
+  const list = (element: MarkupElement): string => {
+    const items = childElements(element)
+      .filter(item => item.name === 'text:list-item' || item.name === 'text:list-header')
+      .map(item => `<li>${childElements(item).map(block).join('')}</li>`);
+    return `<ul>${items.join('')}</ul>`;
+  };
+
+  const table = (element: MarkupElement): string => {
+    const rows: string[] = [];
+    const collectRows = (parent: MarkupElement) => {
+      childElements(parent).forEach(child => {
+        if (child.name === 'table:table-row') {
+          const repeat = Math.min(Number(child.attributes['table:number-rows-repeated']) || 1, 100);
+          const cells = childElements(child)
+            .filter(cell => cell.name === 'table:table-cell' || cell.name === 'table:covered-table-cell')
+            .map(cell => {
+              // Covered cells sit under a spanned cell and are already counted by its colspan
+              if (cell.name === 'table:covered-table-cell') return '';
+              const colspan = Number(cell.attributes['table:number-columns-spanned']) || 1;
+              // Repeated empty cells pad rows to the sheet width; cap them
+              const repeated = Math.min(Number(cell.attributes['table:number-columns-repeated']) || 1, 100);
+              const html = `<td${colspan > 1 ? ` colspan="${colspan}"` : ''}>${childElements(cell).map(block).join('')}</td>`;
+              return html.repeat(repeated);
+            });
+          rows.push(`<tr>${cells.join('')}</tr>`.repeat(repeat));
+        } else if (child.name === 'table:table-header-rows' || child.name === 'table:table-rows' || child.name === 'table:table-row-group') {
+          collectRows(child);
+        }
+      });
+    };
+    collectRows(element);
+    return `<table>${rows.join('')}</table>`;
+  };
+
+  const block = (element: MarkupElement): string => {
+    if (SKIPPED_ELEMENTS.has(element.name)) return '';
+
+    switch (element.name) {
+      case 'text:h': {
+        const level = Math.min(6, Math.max(1, Number(element.attributes['text:outline-level']) || 1));
+        return `<h${level}>${element.children.map(inline).join('')}</h${level}>`;
+      }
+      case 'text:p':
+        return `<p>${element.children.map(inline).join('')}</p>`;
+      case 'text:list':
+        return list(element);
+      case 'table:table':
+        return table(element);
+      default:
+        // Sections, frames, text boxes and index bodies hold further blocks
+        return childElements(element).map(block).join('');
+    }
+  };
+
+  const body = findFirst(root, 'office:text');
+  return body ? childElements(body).map(block).join('') : '';
+};
+
+export const odtExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(20, 'Reading OpenDocument file...');
+
+      const { default: JSZip } = await import('jszip');
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const content = await zip.file('content.xml')?.async('string');
+      if (!content) {
+        throw new Error('Missing content.xml');
+      }
+
+      onProgress(60, 'Extracting text content...');
+      const html = contentToHtml(parseMarkup(content));
+      const { text, tables } = htmlToText(html);
+
+      onProgress(85, 'Reading document properties...');
+      const properties = await extractOpenDocumentProperties(zip);
+
+      return {
+        text,
+        markdown: htmlToMarkdown(html),
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties
+      };
+    } catch (error) {
+      console.error('ODT extraction error:', error);
+      throw new Error('Failed to extract text from OpenDocument file. Please ensure the file is not corrupted.');
+    }
+  }
+};
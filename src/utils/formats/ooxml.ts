@@ -0,0 +1,33 @@
+import type JSZip from 'jszip';
+import { findAll, parseMarkup } from '../markupParser';
+
+/**
+ * Office Open XML package helpers shared by the XLSX and PPTX readers
+ */
+
+// Resolve a relationship target against the folder of the part that declares it
+const resolveTarget = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Map relationship ids to part paths for one OOXML part
+ */
+export const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, string>> => {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const fileName = partPath.split('/').pop();
+  const relsXml = await zip.file(`${folder}/_rels/${fileName}.rels`)?.async('string');
+  const relationships = new Map<string, string>();
+
+  findAll(parseMarkup(relsXml ?? ''), 'Relationship').forEach(relationship => {
+    const { Id: id, Target: target, TargetMode: mode } = relationship.attributes;
+    if (id && target && mode !== 'External') relationships.set(id, resolveTarget(partPath, target));
+  });
+  return relationships;
+};
@@ -0,0 +1,145 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { PDFDocumentLoadingTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { DocumentPage, DocumentTable, OcrPageResult } from '../../types';
+import type { FormatReader } from '../formatExtractors';
+import { buildPageLayout } from '../pdfLayout';
+import { findEdgeLines } from '../boilerplate';
+import { extractPdfProperties } from '../documentMetadata';
+import { toMarkdownTable } from '../tables';
+
+// Set up PDF.js worker
+GlobalWorkerOptions.workerSrc = PdfWorker;
+
+// Pages with fewer non-whitespace characters than this are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 40;
+// OCR results below this mean confidence are flagged for review
+const LOW_OCR_CONFIDENCE = 60;
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/**
+ * Scratch canvases for PDF.js in a worker, where its default factory finds no document
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    if (width <= 0 || height <= 0) {
+      throw new Error('Invalid canvas size');
+    }
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    if (width <= 0 || height <= 0) {
+      throw new Error('Invalid canvas size');
+    }
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    if (!canvasAndContext.canvas) {
+      throw new Error('Canvas is not specified');
+    }
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+export const pdfExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    let loadingTask: PDFDocumentLoadingTask | undefined;
+    try {
+      onProgress(10, 'Loading PDF document...');
+
+      const arrayBuffer = await file.arrayBuffer();
+      const inWorker = typeof document === 'undefined';
+      loadingTask = getDocument({
+        data: arrayBuffer,
+        // Workers cannot register web fonts; OCR rendering draws glyphs as paths instead
+        disableFontFace: inWorker,
+        CanvasFactory: inWorker ? OffscreenCanvasFactory : undefined
+      });
+      const pdf = await loadingTask.promise;
+
+      let fullText = '';
+      const pages: DocumentPage[] = [];
+      const tables: DocumentTable[] = [];
+      const ocrPages: OcrPageResult[] = [];
+      const warnings: string[] = [];
+      const totalPages = pdf.numPages;
+
+      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+        onProgress(Math.round((pageNum / totalPages) * 80) + 10, `Extracting text from page ${pageNum} of ${totalPages}...`);
+
+        const page = await pdf.getPage(pageNum);
+        const viewport = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        const textItems = textContent.items.filter((item): item is TextItem => 'str' in item);
+        // Rebuild lines and column reading order from item positions
+        const layout = buildPageLayout(textItems, viewport.width, viewport.height);
+        let pageText = layout.text;
+        let pageTables = layout.tables;
+
+        const textLayerChars = layout.text.replace(/\s/g, '').length;
+        if (textLayerChars < MIN_TEXT_LAYER_CHARS) {
+          onProgress(Math.round((pageNum / totalPages) * 80) + 10, `Page ${pageNum} of ${totalPages} has no usable text layer, running OCR...`);
+
+          try {
+            const { OcrEngine } = await import('../ocr');
+            const ocr = await OcrEngine.getInstance().recognizePage(page);
+            // Keep the text layer when OCR finds nothing better (e.g. a genuinely short page)
+            if (ocr.text.replace(/\s/g, '').length > textLayerChars) {
+              pageText = ocr.text;
+              pageTables = [];
+              ocrPages.push({ pageNumber: pageNum, confidence: Math.round(ocr.confidence) });
+              if (ocr.confidence < LOW_OCR_CONFIDENCE) {
+                warnings.push(`Page ${pageNum}: low OCR confidence (${Math.round(ocr.confidence)}%)`);
+              }
+            } else if (textLayerChars === 0) {
+              warnings.push(`Page ${pageNum}: no text found`);
+            }
+          } catch (ocrError) {
+            console.warn(`OCR failed for page ${pageNum}:`, ocrError);
+            warnings.push(`Page ${pageNum}: no text layer and OCR failed`);
+          }
+        }
+
+        pageTables.forEach(rows => {
+          tables.push({ index: tables.length, pageNumber: pageNum, rows, markdown: toMarkdownTable(rows) });
+        });
+
+        if (fullText.length > 0) fullText += '\n\n';
+        pages.push({
+          pageNumber: pageNum,
+          text: pageText,
+          charStart: fullText.length,
+          charEnd: fullText.length + pageText.length,
+          columnCount: layout.columnCount,
+          // OCR text has no line positions
+          edgeLines: pageText === layout.text ? findEdgeLines(layout.lines, viewport.height) : undefined
+        });
+        fullText += pageText;
+      }
+
+      const properties = await extractPdfProperties(pdf);
+      return { text: fullText, pages, tables, properties, ocrPages, warnings };
+    } catch (error) {
+      console.error('PDF extraction error:', error);
+      throw new Error('Failed to extract text from PDF. Please ensure the file is not corrupted.');
+    } finally {
+      // Frees the parsed document and its PDF.js worker, also when loading failed
+      await loadingTask?.destroy();
+    }
+  }
+};
@@ -0,0 +1,224 @@
+import { DocumentPage, DocumentTable } from '../../types';
+import type { FormatReader } from '../formatExtractors';
+import { extractOfficeProperties } from '../documentMetadata';
+import { escapeHtml, htmlToMarkdown, htmlToText } from '../htmlText';
+import { childElements, findAll, findFirst, localName, MarkupElement, MarkupNode, parseMarkup } from '../markupParser';
+import { toMarkdownTable } from '../tables';
+import { readRelationships } from './ooxml';
+
+/**
+ * PowerPoint reader
+ * Rewrites each slide (titles, bullet levels, tables and speaker notes) as
+ * simple HTML so slides share the DOCX text and Markdown conversion. Every
+ * slide becomes a page.
+ */
+
+// Placeholders that repeat on every slide and carry no content
+const SKIPPED_PLACEHOLDERS = new Set(['dt', 'ftr', 'sldNum', 'sldImg', 'hdr']);
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+
+const child = (element: MarkupElement, name: string): MarkupElement | undefined =>
+  childElements(element).find(candidate => localName(candidate.name) === name);
+
+const placeholderType = (shape: MarkupElement): string | undefined => {
+  const placeholder = findFirst(shape, 'p:ph');
+  // A placeholder without a type is a body placeholder
+  return placeholder ? placeholder.attributes.type ?? 'body' : undefined;
+};
+
+const runText = (node: MarkupNode): string => {
+  if (node.type === 'text') return '';
+  switch (localName(node.name)) {
+    case 't':
+      return node.children.map(part => (part.type === 'text' ? escapeHtml(part.text) : '')).join('');
+    case 'br':
+      return '<br>';
+    case 'rPr':
+    case 'pPr':
+    case 'endParaRPr':
+      return '';
+    case 'r': {
+      const text = node.children.map(runText).join('');
+      const properties = child(node, 'rPr')?.attributes ?? {};
+      let html = text;
+      if (properties.i === '1') html = `<em>${html}</em>`;
+      if (properties.b === '1') html = `<strong>${html}</strong>`;
+      return html;
+    }
+    default:
+      return node.children.map(runText).join('');
+  }
+};
+
+/**
+ * Render a text body. Paragraphs of body placeholders are bullets unless they
+ * turn bullets off; text boxes are plain paragraphs unless they turn them on.
+ */
+const textBodyToHtml = (body: MarkupElement, bulletsByDefault: boolean): string => {
+  let html = '';
+  let depth = 0;
+
+  childElements(body).filter(paragraph => localName(paragraph.name) === 'p').forEach(paragraph => {
+    const text = paragraph.children.map(runText).join('');
+    if (text.replace(/<br>/g, '').trim().length === 0) return;
+
+    const properties = child(paragraph, 'pPr');
+    let bulleted = bulletsByDefault;
+    if (properties && child(properties, 'buNone')) bulleted = false;
+    else if (properties && (child(properties, 'buChar') || child(properties, 'buAutoNum'))) bulleted = true;
+    const level = bulleted ? Math.min(8, (Number(properties?.attributes.lvl) || 0) + 1) : 0;
+
+    while (depth < level) {
+      html += '<ul><li>';
+      depth++;
+    }
+    while (depth > level) {
+      html += '</li></ul>';
+      depth--;
+    }
+    html += level > 0 ? `</li><li><p>${text}</p>` : `<p>${text}</p>`;
+  });
+
+  while (depth > 0) {
+    html += '</li></ul>';
+    depth--;
+  }
+  // Opening a level starts an item directly, so drop the empty items that leaves behind
+  return html.replace(/<li><\/li>/g, '');
+};
+
+const tableToHtml = (table: MarkupElement): string => {
+  const rows = childElements(table)
+    .filter(row => localName(row.name) === 'tr')
+    .map(row => {
+      const cells = childElements(row)
+        .filter(cell => localName(cell.name) === 'tc')
+        .map(cell => {
+          // Merged-away cells are covered by the span of an earlier cell
+          if (cell.attributes.hMerge === '1' || cell.attributes.vMerge === '1') return '<td></td>';
+          const body = child(cell, 'txBody');
+          return `<td>${body ? textBodyToHtml(body, false) : ''}</td>`;
+        });
+      return `<tr>${cells.join('')}</tr>`;
+    });
+  return `<table>${rows.join('')}</table>`;
+};
+
+interface SlideContent {
+  title?: string;
+  html: string;
+}
+
+const shapesToHtml = (tree: MarkupElement, notes = false): SlideContent => {
+  const content: SlideContent = { html: '' };
+
+  const visit = (shape: MarkupElement) => {
+    switch (localName(shape.name)) {
+      case 'sp': {
+        const type = placeholderType(shape);
+        const body = child(shape, 'txBody');
+        if (!body || (type && SKIPPED_PLACEHOLDERS.has(type)) || (notes && type !== 'body')) return;
+
+        if (type && TITLE_PLACEHOLDERS.has(type) && !content.title) {
+          content.title = childElements(body)
+            .filter(paragraph => localName(paragraph.name) === 'p')
+            .map(paragraph => paragraph.children.map(runText).join(''))
+            .join(' ')
+            .replace(/<[^>]+>/g, ' ')
+            .trim();
+          return;
+        }
+        // Speaker notes are prose even though they sit in a body placeholder
+        content.html += textBodyToHtml(body, !notes && type !== undefined && !TITLE_PLACEHOLDERS.has(type) && type !== 'subTitle');
+        return;
+      }
+      case 'graphicFrame':
+        findAll(shape, 'a:tbl').forEach(table => {
+          content.html += tableToHtml(table);
+        });
+        return;
+      case 'grpSp':
+        childElements(shape).forEach(visit);
+        return;
+      default:
+    }
+  };
+
+  childElements(tree).forEach(visit);
+  return content;
+};
+
+export const pptxExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(15, 'Reading presentation...');
+
+      const { default: JSZip } = await import('jszip');
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const presentationPath = 'ppt/presentation.xml';
+      const presentationXml = await zip.file(presentationPath)?.async('string');
+      if (!presentationXml) {
+        throw new Error('Missing ppt/presentation.xml');
+      }
+
+      // Slide order comes from the presentation, not from the part names
+      const relationships = await readRelationships(zip, presentationPath);
+      const slidePaths = findAll(parseMarkup(presentationXml), 'p:sldId')
+        .map(slide => relationships.get(slide.attributes['r:id']))
+        .filter((path): path is string => path !== undefined);
+
+      let fullText = '';
+      const markdownSlides: string[] = [];
+      const pages: DocumentPage[] = [];
+      const tables: DocumentTable[] = [];
+
+      for (const [index, slidePath] of slidePaths.entries()) {
+        const slideNumber = index + 1;
+        onProgress(20 + Math.round((index / slidePaths.length) * 65), `Extracting text from slide ${slideNumber} of ${slidePaths.length}...`);
+
+        const slideXml = await zip.file(slidePath)?.async('string');
+        const tree = slideXml ? findFirst(parseMarkup(slideXml), 'p:spTree') : undefined;
+        const slide = tree ? shapesToHtml(tree) : { html: '' };
+
+        const notesPath = [...(await readRelationships(zip, slidePath)).values()].find(path => path.includes('notesSlide'));
+        const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+        const notesTree = notesXml ? findFirst(parseMarkup(notesXml), 'p:spTree') : undefined;
+        const notes = notesTree ? shapesToHtml(notesTree, true).html : '';
+
+        const title = slide.title ? `<p>${slide.title}</p>` : '';
+        const notesHtml = notes ? `<blockquote><p><strong>Notes:</strong></p>${notes}</blockquote>` : '';
+        const { text: slideText, tables: slideTables } = htmlToText(title + slide.html + notesHtml);
+
+        const heading = slide.title ? `Slide ${slideNumber}: ${slide.title}` : `Slide ${slideNumber}`;
+        markdownSlides.push(htmlToMarkdown(`<h2>${heading}</h2>${slide.html}${notesHtml}`));
+
+        slideTables.forEach(rows => {
+          tables.push({ index: tables.length, pageNumber: slideNumber, rows, markdown: toMarkdownTable(rows) });
+        });
+
+        if (fullText.length > 0) fullText += '\n\n';
+        pages.push({
+          pageNumber: slideNumber,
+          text: slideText,
+          charStart: fullText.length,
+          charEnd: fullText.length + slideText.length
+        });
+        fullText += slideText;
+      }
+
+      onProgress(90, 'Reading presentation properties...');
+      const properties = await extractOfficeProperties(zip);
+
+      return {
+        text: fullText,
+        markdown: markdownSlides.join('\n\n'),
+        pages,
+        tables,
+        properties
+      };
+    } catch (error) {
+      console.error('PPTX extraction error:', error);
+      throw new Error('Failed to extract text from PowerPoint presentation. Please ensure the file is not corrupted.');
+    }
+  }
+};
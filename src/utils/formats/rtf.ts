@@ -0,0 +1,259 @@
+import { DocumentProperties } from '../../types';
+import type { FormatReader } from '../formatExtractors';
+import { normalizeTableRows, toMarkdownTable } from '../tables';
+
+/**
+ * Minimal RTF reader
+ * Walks groups and control words, keeping body text, paragraph breaks and
+ * table rows while skipping fonts, styles, pictures and other destinations.
+ */
+
+// Destinations whose content is never body text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl',
+  'generator', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl',
+  'fldinst', 'filetbl', 'pgdsctbl', 'mmathPr', 'operator', 'nonshppict', 'bkmkstart', 'bkmkend'
+]);
+
+// Fields inside the \info group that map to document properties
+const INFO_FIELDS = new Set(['title', 'author', 'subject', 'keywords']);
+
+const SYMBOLS: Record<string, string> = {
+  line: '\n', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  enspace: '\u2002', emspace: '\u2003', qmspace: '\u2005'
+};
+
+// Windows code pages named by \ansicpg; anything TextDecoder does not know falls back to 1252
+const decoderFor = (codePage: number): TextDecoder => {
+  try {
+    return new TextDecoder(`windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+interface GroupState {
+  skip: boolean;
+  // Characters to skip after a \uN escape
+  unicodeSkip: number;
+  inInfo: boolean;
+  infoField?: string;
+}
+
+interface RtfDocument {
+  text: string;
+  tables: string[][][];
+  properties: DocumentProperties;
+}
+
+const parseRtf = (source: string): RtfDocument => {
+  const info: Record<string, string> = {};
+  const tables: string[][][] = [];
+  const blocks: string[] = [];
+  let decoder = decoderFor(1252);
+
+  let paragraph = '';
+  let cell = '';
+  let row: string[] = [];
+  let tableRows: string[][] = [];
+  let inTable = false;
+  let pendingBytes: number[] = [];
+  let skipChars = 0;
+
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1, inInfo: false };
+
+  const append = (text: string) => {
+    if (state.skip) return;
+    if (state.infoField) info[state.infoField] = (info[state.infoField] ?? '') + text;
+    else if (inTable) cell += text;
+    else paragraph += text;
+  };
+
+  // \'hh escapes are bytes in the document code page; decode runs of them together
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    append(decoder.decode(Uint8Array.from(pendingBytes)));
+    pendingBytes = [];
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    append(text);
+  };
+
+  const flushTable = () => {
+    if (tableRows.length > 0) {
+      const rows = normalizeTableRows(tableRows);
+      if (rows.length > 0) {
+        tables.push(rows);
+        blocks.push(toMarkdownTable(rows));
+      }
+    }
+    tableRows = [];
+  };
+
+  const endParagraph = () => {
+    if (inTable) {
+      cell += ' ';
+      return;
+    }
+    flushTable();
+    const text = paragraph.replace(/[ \t]+/g, ' ').trim();
+    if (text) blocks.push(text);
+    paragraph = '';
+  };
+
+  const controlWord = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])/y;
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      position++;
+      continue;
+    }
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      position++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      position++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (skipChars > 0) {
+        skipChars--;
+      } else {
+        emit(char);
+      }
+      position++;
+      continue;
+    }
+
+    controlWord.lastIndex = position;
+    const match = controlWord.exec(source);
+    if (!match) {
+      position++;
+      continue;
+    }
+    position = controlWord.lastIndex;
+    const [, word, parameter, hex, symbol] = match;
+
+    if (hex !== undefined) {
+      if (skipChars > 0) {
+        skipChars--;
+      } else if (!state.skip) {
+        pendingBytes.push(parseInt(hex, 16));
+      }
+      continue;
+    }
+
+    if (symbol !== undefined) {
+      if (symbol === '*') {
+        // Unknown destinations marked \* are ignorable by definition
+        state.skip = true;
+      } else if (symbol === '~') {
+        emit(' ');
+      } else if (symbol === '_') {
+        emit('-');
+      } else if (symbol === '\\' || symbol === '{' || symbol === '}') {
+        emit(symbol);
+      }
+      continue;
+    }
+
+    if (skipChars > 0) {
+      // A control word counts as one skipped character after \uN
+      skipChars--;
+      continue;
+    }
+
+    flushBytes();
+    const value = parameter === undefined ? undefined : Number(parameter);
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'info') {
+      // Only the known property fields of \info are read; dates and statistics are skipped
+      state.skip = true;
+      state.inInfo = true;
+    } else if (state.inInfo && INFO_FIELDS.has(word)) {
+      state.skip = false;
+      state.infoField = word;
+    } else if (word === 'ansicpg' && value) {
+      decoder = decoderFor(value);
+    } else if (word === 'uc') {
+      state.unicodeSkip = value ?? 1;
+    } else if (word === 'u' && value !== undefined) {
+      emit(String.fromCharCode(value < 0 ? value + 65536 : value));
+      skipChars = state.unicodeSkip;
+    } else if (word === 'intbl') {
+      inTable = true;
+    } else if (word === 'cell') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (word === 'row') {
+      if (row.length > 0) tableRows.push(row);
+      row = [];
+      cell = '';
+    } else if (word === 'pard') {
+      // Paragraph defaults reset \intbl; the table continues only if the next paragraph sets it again
+      inTable = false;
+    } else if (word === 'par' || word === 'sect' || word === 'page') {
+      endParagraph();
+    } else if (SYMBOLS[word]) {
+      emit(SYMBOLS[word]);
+    }
+  }
+
+  flushBytes();
+  endParagraph();
+  flushTable();
+
+  const properties: DocumentProperties = {};
+  INFO_FIELDS.forEach(field => {
+    const value = info[field]?.replace(/\s+/g, ' ').trim();
+    if (value) properties[field as 'title' | 'author' | 'subject' | 'keywords'] = value;
+  });
+
+  return {
+    text: blocks.filter(block => block.length > 0).join('\n\n'),
+    tables,
+    properties
+  };
+};
+
+export const rtfExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(30, 'Reading RTF document...');
+      // RTF is 7-bit ASCII; higher characters arrive as escapes decoded above
+      const source = new TextDecoder('latin1').decode(await file.arrayBuffer());
+      if (!source.startsWith('{\\rtf')) {
+        throw new Error('Missing RTF header');
+      }
+
+      onProgress(60, 'Extracting text content...');
+      const { text, tables, properties } = parseRtf(source);
+
+      return {
+        text,
+        tables: tables.map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) })),
+        properties
+      };
+    } catch (error) {
+      console.error('RTF extraction error:', error);
+      throw new Error('Failed to extract text from RTF document. Please ensure the file is not corrupted.');
+    }
+  }
+};
@@ -0,0 +1,268 @@
+import { DocumentTable } from '../../types';
+import type { FormatReader } from '../formatExtractors';
+import { extractOfficeProperties } from '../documentMetadata';
+import { childElements, findAll, findFirst, localName, MarkupElement, parseMarkup, textContent } from '../markupParser';
+import { normalizeTableRows, toMarkdownTable } from '../tables';
+import { readText } from '../textEncoding';
+import { readRelationships } from './ooxml';
+
+/**
+ * Spreadsheet readers
+ * CSV files and XLSX workbooks become Markdown tables, one per sheet, so the
+ * grid survives preprocessing and chunking.
+ */
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent
+ * number of fields
+ */
+const sniffDelimiter = (sample: string): string => {
+  const lines = sample.split(/\r?\n/).filter(line => line.trim().length > 0).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    // Quoted sections may contain the delimiter, so drop them before counting
+    const counts = lines.map(line => line.replace(/"[^"]*"/g, '').split(delimiter).length - 1);
+    if (counts.length === 0 || counts[0] === 0) return;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Parse CSV text into rows (RFC 4180: quoted fields may contain delimiters,
+ * doubled quotes and line breaks)
+ */
+const parseCsv = (source: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const csvExtractor: FormatReader = {
+  async extract(file, onProgress, options = {}) {
+    try {
+      onProgress(30, 'Reading CSV file...');
+      const { text: source, encoding } = await readText(file, options.encoding);
+
+      onProgress(60, 'Parsing rows...');
+      const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : sniffDelimiter(source.slice(0, 10000));
+      const rows = normalizeTableRows(parseCsv(source, delimiter));
+      const markdown = toMarkdownTable(rows);
+
+      return {
+        text: markdown,
+        markdown,
+        tables: rows.length > 0 ? [{ index: 0, rows, markdown }] : [],
+        properties: { encoding }
+      };
+    } catch (error) {
+      console.error('CSV extraction error:', error);
+      throw new Error('Failed to read CSV file.');
+    }
+  }
+};
+
+// Built-in number formats that display dates and times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Excel's day zero, accounting for the 1900 leap year bug
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const serialToIso = (serial: number): string => {
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * 86400000));
+  const iso = date.toISOString();
+  // Whole days are dates; anything else keeps its time of day
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+};
+
+/**
+ * Zero-based column index of a cell reference ("C7" -> 2)
+ */
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Rich text runs keep their text in <t>; phonetic guides (<rPh>) are not part of the value
+const stringItemText = (item: MarkupElement): string =>
+  findAll(item, 't')
+    .filter(t => !findAll(item, 'rPh').some(phonetic => phonetic.children.includes(t)))
+    .map(textContent)
+    .join('');
+
+const readDateStyles = (stylesXml: string | undefined): boolean[] => {
+  const root = parseMarkup(stylesXml ?? '');
+  const customDateFormats = new Set(
+    findAll(root, 'numFmt')
+      .filter(format => {
+        // Strip quoted literals and colors before looking for date or time codes
+        const code = (format.attributes.formatCode ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        return /[dmyhs]/i.test(code);
+      })
+      .map(format => Number(format.attributes.numFmtId))
+  );
+  const cellFormats = findFirst(root, 'cellXfs');
+  return cellFormats
+    ? childElements(cellFormats).map(xf => {
+      const id = Number(xf.attributes.numFmtId ?? 0);
+      return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+    })
+    : [];
+};
+
+const readSheet = (sheetXml: string, sharedStrings: string[], dateStyles: boolean[]): string[][] => {
+  const rows = new Map<number, Map<number, string>>();
+  let nextRow = 0;
+
+  findAll(parseMarkup(sheetXml), 'row').forEach(row => {
+    const rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+    const cells = new Map<number, string>();
+    let nextColumn = 0;
+
+    childElements(row).filter(cell => localName(cell.name) === 'c').forEach(cell => {
+      const column = cell.attributes.r ? columnIndex(cell.attributes.r) : nextColumn;
+      nextColumn = column + 1;
+
+      const valueElement = childElements(cell).find(child => localName(child.name) === 'v');
+      const raw = valueElement ? textContent(valueElement) : '';
+      let value: string;
+
+      switch (cell.attributes.t) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr': {
+          const inline = childElements(cell).find(child => localName(child.name) === 'is');
+          value = inline ? stringItemText(inline) : '';
+          break;
+        }
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'str':
+        case 'e':
+          value = raw;
+          break;
+        default: {
+          const number = Number(raw);
+          value = raw !== '' && dateStyles[Number(cell.attributes.s ?? 0)] && Number.isFinite(number)
+            ? serialToIso(number)
+            : raw;
+        }
+      }
+
+      if (value.length > 0) cells.set(column, value);
+    });
+
+    if (cells.size > 0) rows.set(rowIndex, cells);
+  });
+
+  // Only used rows and columns make it into the grid, however far apart they are
+  const usedColumns = [...new Set([...rows.values()].flatMap(cells => [...cells.keys()]))].sort((a, b) => a - b);
+  return [...rows.keys()]
+    .sort((a, b) => a - b)
+    .map(rowIndex => usedColumns.map(column => rows.get(rowIndex)?.get(column) ?? ''));
+};
+
+export const xlsxExtractor: FormatReader = {
+  async extract(file, onProgress) {
+    try {
+      onProgress(15, 'Reading workbook...');
+
+      const { default: JSZip } = await import('jszip');
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const workbookPath = 'xl/workbook.xml';
+      const workbookXml = await zip.file(workbookPath)?.async('string');
+      if (!workbookXml) {
+        throw new Error('Missing xl/workbook.xml');
+      }
+
+      const relationships = await readRelationships(zip, workbookPath);
+      const sharedStrings = findAll(parseMarkup(await zip.file('xl/sharedStrings.xml')?.async('string') ?? ''), 'si')
+        .map(stringItemText);
+      const dateStyles = readDateStyles(await zip.file('xl/styles.xml')?.async('string'));
+      const sheets = findAll(parseMarkup(workbookXml), 'sheet')
+        .filter(sheet => sheet.attributes.state !== 'hidden' && sheet.attributes.state !== 'veryHidden');
+
+      const blocks: string[] = [];
+      const markdownBlocks: string[] = [];
+      const tables: DocumentTable[] = [];
+
+      for (const [index, sheet] of sheets.entries()) {
+        onProgress(20 + Math.round((index / sheets.length) * 65), `Reading sheet ${index + 1} of ${sheets.length}...`);
+
+        const sheetPath = relationships.get(sheet.attributes['r:id']);
+        const sheetXml = sheetPath ? await zip.file(sheetPath)?.async('string') : undefined;
+        if (!sheetXml) continue;
+
+        const rows = normalizeTableRows(readSheet(sheetXml, sharedStrings, dateStyles));
+        if (rows.length === 0) continue;
+
+        const name = sheet.attributes.name ?? `Sheet ${index + 1}`;
+        const markdown = toMarkdownTable(rows);
+        tables.push({ index: tables.length, rows, markdown });
+        blocks.push(`${name}\n\n${markdown}`);
+        markdownBlocks.push(`## ${name}\n\n${markdown}`);
+      }
+
+      onProgress(90, 'Reading workbook properties...');
+      const properties = await extractOfficeProperties(zip);
+
+      return {
+        text: blocks.join('\n\n'),
+        markdown: markdownBlocks.join('\n\n'),
+        tables,
+        properties
+      };
+    } catch (error) {
+      console.error('XLSX extraction error:', error);
+      throw new Error('Failed to extract data from Excel workbook. Please ensure the file is not corrupted.');
+    }
+  }
+};
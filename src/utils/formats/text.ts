@@ -0,0 +1,47 @@
+import { DocumentTable } from '../../types';
+import type { FormatReader } from '../formatExtractors';
+import { extractTextProperties } from '../documentMetadata';
+import { findMarkdownTables, toMarkdownTable } from '../tables';
+import { readText } from '../textEncoding';
+
+// YAML front matter at the very start of a Markdown file
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+export const plainTextExtractor: FormatReader = {
+  async extract(file, onProgress, options = {}) {
+    try {
+      onProgress(50, 'Reading text file...');
+
+      const { text, encoding } = await readText(file, options.encoding);
+      return { text, properties: { ...extractTextProperties(text), encoding } };
+    } catch (error) {
+      console.error('Text extraction error:', error);
+      throw new Error('Failed to read text file.');
+    }
+  }
+};
+
+export const markdownExtractor: FormatReader = {
+  async extract(file, onProgress, options = {}) {
+    try {
+      onProgress(40, 'Reading Markdown file...');
+
+      const { text: source, encoding } = await readText(file, options.encoding);
+      const frontMatter = FRONT_MATTER.exec(source);
+      const markdown = frontMatter ? source.slice(frontMatter[0].length) : source;
+
+      onProgress(70, 'Reading headings and tables...');
+      const properties = { ...extractTextProperties(frontMatter ? frontMatter[1] : ''), encoding };
+      // Without front matter the first heading names the document
+      properties.title ??= /^#{1,6}\s+(.+?)\s*#*\s*$/m.exec(markdown)?.[1];
+
+      const tables: DocumentTable[] = findMarkdownTables(markdown)
+        .map((rows, index) => ({ index, rows, markdown: toMarkdownTable(rows) }));
+
+      return { text: markdown, markdown, tables, properties };
+    } catch (error) {
+      console.error('Markdown extraction error:', error);
+      throw new Error('Failed to read Markdown file.');
+    }
+  }
+};
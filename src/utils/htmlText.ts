@@ -0,0 +1,219 @@
+/**
+ * HTML to text conversion
+ * Turns HTML (including mammoth's DOCX output) into plain paragraphs separated
+ * by blank lines, or into Markdown that keeps headings, lists and emphasis.
+ * Tables are rendered as Markdown in both so rows and columns survive.
+ */
+
+import { childElements, MarkupElement, MarkupNode, parseMarkup, textContent } from './markupParser';
+import { normalizeTableRows, readHtmlTable, toMarkdownTable } from './tables';
+
+export interface HtmlTextResult {
+  text: string;
+  // Structured copy of every table, in document order
+  tables: string[][][];
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'ul'
+]);
+
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg']);
+
+/**
+ * Convert HTML to plain text with Markdown tables
+ */
+export const htmlToText = (html: string): HtmlTextResult => {
+  const root = parseMarkup(html, { html: true });
+  const blocks: string[] = [];
+  const tables: string[][][] = [];
+  let buffer = '';
+
+  const flush = () => {
+    const text = buffer
+      .split('\n')
+      .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+      .join('\n')
+      .trim();
+    if (text.length > 0) blocks.push(text);
+    buffer = '';
+  };
+
+  const visit = (node: MarkupNode, preformatted: boolean) => {
+    if (node.type === 'text') {
+      buffer += preformatted ? node.text : node.text.replace(/\s+/g, ' ');
+      return;
+    }
+    visitElement(node, preformatted);
+  };
+
+  const visitElement = (element: MarkupElement, preformatted: boolean) => {
+    if (SKIPPED_ELEMENTS.has(element.name)) return;
+
+    if (element.name === 'br') {
+      buffer += '\n';
+      return;
+    }
+
+    if (element.name === 'table') {
+      flush();
+      const rows = readHtmlTable(element);
+      const markdown = toMarkdownTable(rows);
+      if (markdown.length > 0) {
+        blocks.push(markdown);
+        tables.push(normalizeTableRows(rows));
+      }
+      return;
+    }
+
+    const block = BLOCK_ELEMENTS.has(element.name);
+    if (block) flush();
+    element.children.forEach(child => visit(child, preformatted || element.name === 'pre'));
+    if (block) flush();
+  };
+
+  visitElement(root, false);
+  flush();
+
+  return { text: blocks.join('\n\n'), tables };
+};
+
+const INLINE_MARKERS: Record<string, string> = {
+  strong: '**', b: '**',
+  em: '*', i: '*',
+  s: '~~', del: '~~', strike: '~~',
+  code: '`'
+};
+
+/**
+ * Escape characters that would otherwise be read as Markdown syntax
+ */
+const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/([\\`*])/g, '\\$1')
+    // Underscores inside words (file_name) are never emphasis
+    .replace(/(^|[^A-Za-z0-9])_|_(?=[^A-Za-z0-9]|$)/g, match => match.replace('_', '\\_'));
+
+// Line starts that would turn a paragraph into a heading, quote or list item
+const escapeLineStart = (line: string): string =>
+  line
+    .replace(/^(#{1,6}\s|>|[-+]\s)/, '\\$1')
+    .replace(/^(\d+)([.)]\s)/, '$1\\$2');
+
+/**
+ * Wrap text in an emphasis marker, keeping surrounding spaces outside it
+ * ("**bold** " rather than "**bold **", which Markdown does not recognize)
+ */
+const wrapInline = (text: string, marker: string): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || match[2].length === 0) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const renderInline = (node: MarkupNode): string => {
+  if (node.type === 'text') return escapeMarkdown(node.text.replace(/\s+/g, ' '));
+  if (SKIPPED_ELEMENTS.has(node.name) || node.name === 'img') return '';
+  if (node.name === 'br') return '\n';
+
+  if (node.name === 'code') {
+    const code = textContent(node).replace(/\s+/g, ' ');
+    return code.trim() ? wrapInline(code, code.includes('`') ? '``' : '`') : code;
+  }
+
+  const content = node.children.map(renderInline).join('');
+  const marker = INLINE_MARKERS[node.name];
+  if (marker) return wrapInline(content, marker);
+
+  const href = node.name === 'a' ? node.attributes.href : undefined;
+  // In-document anchors (bookmarks, footnote links) carry no useful target
+  if (href && !href.startsWith('#') && content.trim()) {
+    return `[${content.trim()}](${href.replace(/[()\s]/g, encodeURIComponent)})`;
+  }
+  return content;
+};
+
+const cleanInline = (markdown: string): string =>
+  markdown
+    .split('\n')
+    .map(line => escapeLineStart(line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim()))
+    .filter(line => line.length > 0)
+    .join('\n');
+
+const indentContinuation = (text: string, width: number): string =>
+  text.split('\n').map((line, index) => (index === 0 || line.length === 0 ? line : ' '.repeat(width) + line)).join('\n');
+
+const renderList = (list: MarkupElement): string => {
+  const ordered = list.name === 'ol';
+  let number = parseInt(list.attributes.start ?? '1', 10) || 1;
+
+  return childElements(list)
+    .filter(item => item.name === 'li')
+    .map(item => {
+      const marker = ordered ? `${number++}.` : '-';
+      // Tight lists: the item's paragraphs and nested lists sit on consecutive lines
+      const body = renderBlocks(item).join('\n');
+      return `${marker} ${indentContinuation(body, marker.length + 1)}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Render the children of an element as Markdown blocks
+ */
+const renderBlocks = (element: MarkupElement): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    const paragraph = cleanInline(inline);
+    if (paragraph.length > 0) blocks.push(paragraph);
+    inline = '';
+  };
+
+  element.children.forEach(child => {
+    if (child.type === 'text' || !(BLOCK_ELEMENTS.has(child.name) || child.name === 'table')) {
+      inline += renderInline(child);
+      return;
+    }
+
+    flushInline();
+    const heading = /^h([1-6])$/.exec(child.name);
+
+    if (heading) {
+      const text = cleanInline(child.children.map(renderInline).join('')).replace(/\n/g, ' ').replace(/^\\(?=#)/, '');
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (child.name === 'ul' || child.name === 'ol') {
+      const list = renderList(child);
+      if (list) blocks.push(list);
+    } else if (child.name === 'table') {
+      const table = toMarkdownTable(readHtmlTable(child));
+      if (table) blocks.push(table);
+    } else if (child.name === 'pre') {
+      blocks.push('```\n' + textContent(child).replace(/^\n|\n$/g, '') + '\n```');
+    } else if (child.name === 'blockquote') {
+      const quote = renderBlocks(child).join('\n\n');
+      if (quote) blocks.push(quote.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+    } else if (child.name === 'hr') {
+      blocks.push('---');
+    } else {
+      blocks.push(...renderBlocks(child));
+    }
+  });
+
+  flushInline();
+  return blocks;
+};
+
+/**
+ * Convert HTML to Markdown, keeping headings, lists, emphasis, links and tables
+ */
+export const htmlToMarkdown = (html: string): string =>
+  renderBlocks(parseMarkup(html, { html: true })).join('\n\n');
+
+/**
+ * Escape text for inclusion in generated HTML
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
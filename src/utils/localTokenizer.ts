@@ -0,0 +1,595 @@
+/**
+ * In-browser tokenizer engine
+ * Loads Hugging Face tokenizer.json files (BPE and WordPiece models) or
+ * tiktoken rank files and encodes text without any network access.
+ */
+
+export type LocalTokenizerKind = 'bpe' | 'wordpiece' | 'tiktoken';
+
+export interface LocalTokenizerInfo {
+  name: string;
+  kind: LocalTokenizerKind;
+  vocabSize: number;
+  // SHA-256 of the tokenizer file, set once the main thread has loaded it
+  contentHash?: string;
+  // What the tokenizer is loaded and selected under: the name and the start of the content hash,
+  // since most files share a name such as tokenizer.json
+  id?: string;
+}
+
+export interface LocalEncoding {
+  tokens: string[];
+  tokenIds: number[];
+}
+
+export interface LocalTokenizer {
+  info: LocalTokenizerInfo;
+  encode(text: string): LocalEncoding;
+}
+
+// GPT-2 / cl100k style pre-tokenization patterns, rewritten without the
+// inline (?i:) groups that JavaScript regular expressions do not support
+const CONTRACTIONS = `'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]`;
+const GPT2_PATTERN = `'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+`;
+const CL100K_PATTERN = `(?:${CONTRACTIONS})|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`;
+const O200K_PATTERN = [
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+  `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+  `\\p{N}{1,3}`,
+  ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+  `\\s*[\\r\\n]+`,
+  `\\s+(?!\\S)`,
+  `\\s+`
+].join('|');
+
+// The parts of a Hugging Face tokenizer.json that the engine reads
+
+interface TokenizerPattern {
+  String?: string;
+  Regex?: string;
+}
+
+interface TokenizerNormalizer {
+  type: string;
+  normalizers?: TokenizerNormalizer[];
+  prepend?: string;
+  pattern?: TokenizerPattern;
+  content?: string;
+  clean_text?: boolean;
+  handle_chinese_chars?: boolean;
+  lowercase?: boolean;
+  strip_accents?: boolean | null;
+}
+
+// Pre-tokenizers, and the ByteLevel decoder, which carries the same options
+interface TokenizerPreTokenizer {
+  type: string;
+  pretokenizers?: TokenizerPreTokenizer[];
+  add_prefix_space?: boolean;
+  use_regex?: boolean;
+  replacement?: string;
+  prepend_scheme?: 'always' | 'first' | 'never';
+  split?: boolean;
+  pattern?: TokenizerPattern;
+}
+
+interface TokenizerModel {
+  type?: string;
+  vocab: Record<string, number>;
+  merges?: Array<string | [string, string]>;
+  unk_token?: string | null;
+  byte_fallback?: boolean;
+  ignore_merges?: boolean;
+  continuing_subword_prefix?: string;
+  max_input_chars_per_word?: number;
+}
+
+interface TokenizerDefinition {
+  model: TokenizerModel;
+  normalizer?: TokenizerNormalizer | null;
+  pre_tokenizer?: TokenizerPreTokenizer | null;
+  decoder?: TokenizerPreTokenizer | null;
+  added_tokens?: Array<{ id: number; content: string }>;
+}
+
+const compilePattern = (pattern: string | undefined, fallback: string): RegExp => {
+  if (pattern) {
+    const rewritten = pattern.replace(/\(\?i:'s\|'t\|'re\|'ve\|'m\|'ll\|'d\)/g, `(?:${CONTRACTIONS})`);
+    try {
+      return new RegExp(rewritten, 'gu');
+    } catch {
+      console.warn('Tokenizer pre-tokenization pattern is not supported by JavaScript, using default pattern');
+    }
+  }
+  return new RegExp(fallback, 'gu');
+};
+
+/**
+ * Split text into pieces, keeping both regex matches and the gaps between them
+ */
+const splitIsolated = (text: string, regex: RegExp): string[] => {
+  const pieces: string[] = [];
+  let lastIndex = 0;
+  regex.lastIndex = 0;
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length === 0) continue;
+    const index = match.index ?? 0;
+    if (index > lastIndex) pieces.push(text.slice(lastIndex, index));
+    pieces.push(match[0]);
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) pieces.push(text.slice(lastIndex));
+  return pieces;
+};
+
+/**
+ * GPT-2 byte-to-unicode table: maps every byte to a printable character
+ */
+const buildByteEncoder = (): string[] => {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const encoder: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    encoder[b] = printable.includes(b)
+      ? String.fromCharCode(b)
+      : String.fromCharCode(256 + extra++);
+  }
+  return encoder;
+};
+
+const BYTE_ENCODER = buildByteEncoder();
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Split text around special (added) tokens so they are never merged
+ */
+const splitOnSpecialTokens = (
+  text: string,
+  specialTokens: Map<string, number>
+): Array<{ text: string; specialId?: number }> => {
+  if (specialTokens.size === 0) return [{ text }];
+
+  const escaped = [...specialTokens.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const regex = new RegExp(escaped.join('|'), 'g');
+
+  const parts: Array<{ text: string; specialId?: number }> = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(regex)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push({ text: text.slice(lastIndex, index) });
+    parts.push({ text: match[0], specialId: specialTokens.get(match[0]) });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex) });
+  return parts;
+};
+
+const applyNormalizer = (text: string, normalizer: TokenizerNormalizer | null | undefined): string => {
+  if (!normalizer) return text;
+
+  switch (normalizer.type) {
+    case 'Sequence':
+      return (normalizer.normalizers || []).reduce(
+        (current, child) => applyNormalizer(current, child),
+        text
+      );
+    case 'NFC':
+    case 'NFD':
+    case 'NFKC':
+    case 'NFKD':
+      return text.normalize(normalizer.type);
+    case 'Lowercase':
+      return text.toLowerCase();
+    case 'Strip':
+      return text.trim();
+    case 'StripAccents':
+      return text.normalize('NFD').replace(/\p{M}/gu, '');
+    case 'Prepend':
+      return (normalizer.prepend ?? '') + text;
+    case 'Replace': {
+      const pattern = normalizer.pattern?.String !== undefined
+        ? new RegExp(normalizer.pattern.String.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+        : new RegExp(normalizer.pattern?.Regex ?? '', 'gu');
+      return text.replace(pattern, normalizer.content ?? '');
+    }
+    case 'BertNormalizer': {
+      let normalized = text;
+      if (normalizer.clean_text !== false) {
+        normalized = normalized.replace(/[\p{Cc}\p{Cf}]/gu, char => /\s/.test(char) ? ' ' : '');
+      }
+      if (normalizer.handle_chinese_chars !== false) {
+        normalized = normalized.replace(/[一-鿿㐀-䶿豈-﫿]/g, ' $& ');
+      }
+      if (normalizer.lowercase !== false) {
+        normalized = normalized.toLowerCase();
+      }
+      if (normalizer.strip_accents ?? normalizer.lowercase !== false) {
+        normalized = normalized.normalize('NFD').replace(/\p{M}/gu, '');
+      }
+      return normalized;
+    }
+    default:
+      return text;
+  }
+};
+
+const findPreTokenizer = (
+  preTokenizer: TokenizerPreTokenizer | null | undefined,
+  type: string
+): TokenizerPreTokenizer | undefined => {
+  if (!preTokenizer) return undefined;
+  if (preTokenizer.type === type) return preTokenizer;
+  if (preTokenizer.type === 'Sequence') {
+    return (preTokenizer.pretokenizers || []).find(child => child.type === type);
+  }
+  return undefined;
+};
+
+/**
+ * Byte pair encoding over an array of symbols using merge ranks
+ */
+const bytePairMerge = (symbols: string[], getRank: (left: string, right: string) => number | undefined): string[] => {
+  const parts = [...symbols];
+
+  while (parts.length > 1) {
+    let bestRank = Infinity;
+    let bestIndex = -1;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const rank = getRank(parts[i], parts[i + 1]);
+      if (rank !== undefined && rank < bestRank) {
+        bestRank = rank;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex === -1) break;
+    parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+  }
+
+  return parts;
+};
+
+class HuggingFaceBpeTokenizer implements LocalTokenizer {
+  info: LocalTokenizerInfo;
+  private vocab: Map<string, number>;
+  private mergeRanks = new Map<string, number>();
+  private specialTokens = new Map<string, number>();
+  private cache = new Map<string, string[]>();
+  private normalizer: TokenizerNormalizer | null | undefined;
+  private splitRegex: RegExp | null = null;
+  private byteLevel: TokenizerPreTokenizer | undefined;
+  private metaspace: TokenizerPreTokenizer | undefined;
+  private unkToken: string | null;
+  private byteFallback: boolean;
+  private ignoreMerges: boolean;
+
+  constructor(name: string, definition: TokenizerDefinition) {
+    const model = definition.model;
+    this.vocab = new Map(Object.entries(model.vocab));
+    this.unkToken = model.unk_token ?? null;
+    this.byteFallback = Boolean(model.byte_fallback);
+    this.ignoreMerges = Boolean(model.ignore_merges);
+    this.normalizer = definition.normalizer;
+
+    (model.merges || []).forEach((merge, rank) => {
+      const [left, right] = Array.isArray(merge) ? merge : merge.split(' ');
+      this.mergeRanks.set(`${left}\u0001${right}`, rank);
+    });
+
+    (definition.added_tokens || []).forEach(token => {
+      this.specialTokens.set(token.content, token.id);
+    });
+
+    const preTokenizer = definition.pre_tokenizer;
+    this.byteLevel = findPreTokenizer(preTokenizer, 'ByteLevel')
+      ?? (definition.decoder?.type === 'ByteLevel' ? definition.decoder : undefined);
+    this.metaspace = findPreTokenizer(preTokenizer, 'Metaspace');
+
+    const split = findPreTokenizer(preTokenizer, 'Split');
+    if (split) {
+      this.splitRegex = compilePattern(split.pattern?.Regex, CL100K_PATTERN);
+    } else if (this.byteLevel && this.byteLevel.use_regex !== false) {
+      this.splitRegex = compilePattern(undefined, GPT2_PATTERN);
+    }
+
+    this.info = {
+      name,
+      kind: 'bpe',
+      vocabSize: this.vocab.size + this.specialTokens.size
+    };
+  }
+
+  encode(text: string): LocalEncoding {
+    const tokens: string[] = [];
+    const tokenIds: number[] = [];
+
+    for (const part of splitOnSpecialTokens(text, this.specialTokens)) {
+      if (part.specialId !== undefined) {
+        tokens.push(part.text);
+        tokenIds.push(part.specialId);
+        continue;
+      }
+
+      for (const word of this.preTokenize(applyNormalizer(part.text, this.normalizer))) {
+        for (const token of this.encodeWord(word)) {
+          const id = this.vocab.get(token);
+          if (id !== undefined) {
+            tokens.push(token);
+            tokenIds.push(id);
+          } else {
+            this.pushUnknown(token, tokens, tokenIds);
+          }
+        }
+      }
+    }
+
+    return { tokens, tokenIds };
+  }
+
+  private preTokenize(text: string): string[] {
+    let words = [text];
+
+    if (this.metaspace) {
+      const replacement: string = this.metaspace.replacement ?? '▁';
+      let replaced = text.replace(/ /g, replacement);
+      const prependScheme = this.metaspace.prepend_scheme ?? (this.metaspace.add_prefix_space === false ? 'never' : 'always');
+      if (prependScheme !== 'never' && !replaced.startsWith(replacement)) {
+        replaced = replacement + replaced;
+      }
+      words = this.metaspace.split === false
+        ? [replaced]
+        : replaced.split(new RegExp(`(?=${replacement})`, 'u')).filter(word => word.length > 0);
+    }
+
+    if (this.byteLevel?.add_prefix_space && !text.startsWith(' ')) {
+      words = words.map((word, index) => index === 0 ? ' ' + word : word);
+    }
+
+    if (this.splitRegex) {
+      words = words.flatMap(word => splitIsolated(word, this.splitRegex as RegExp));
+    }
+
+    if (this.byteLevel) {
+      words = words.map(word => Array.from(utf8Encoder.encode(word), byte => BYTE_ENCODER[byte]).join(''));
+    }
+
+    return words;
+  }
+
+  private encodeWord(word: string): string[] {
+    const cached = this.cache.get(word);
+    if (cached) return cached;
+
+    const merged = this.ignoreMerges && this.vocab.has(word)
+      ? [word]
+      : bytePairMerge(Array.from(word), (left, right) => this.mergeRanks.get(`${left}\u0001${right}`));
+
+    if (this.cache.size > 50000) this.cache.clear();
+    this.cache.set(word, merged);
+    return merged;
+  }
+
+  private pushUnknown(token: string, tokens: string[], tokenIds: number[]): void {
+    if (this.byteFallback) {
+      const byteTokens = Array.from(utf8Encoder.encode(token), byte =>
+        `<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`
+      );
+      if (byteTokens.every(byteToken => this.vocab.has(byteToken))) {
+        byteTokens.forEach(byteToken => {
+          tokens.push(byteToken);
+          tokenIds.push(this.vocab.get(byteToken) as number);
+        });
+        return;
+      }
+    }
+
+    if (this.unkToken && this.vocab.has(this.unkToken)) {
+      tokens.push(this.unkToken);
+      tokenIds.push(this.vocab.get(this.unkToken) as number);
+      return;
+    }
+
+    // Dropping the token or inventing an id would under-count silently
+    throw new Error(`"${token}" is not in the tokenizer vocabulary, and the tokenizer has no unknown token or byte fallback`);
+  }
+}
+
+class HuggingFaceWordPieceTokenizer implements LocalTokenizer {
+  info: LocalTokenizerInfo;
+  private vocab: Map<string, number>;
+  private specialTokens = new Map<string, number>();
+  private normalizer: TokenizerNormalizer | null | undefined;
+  private unkToken: string;
+  private prefix: string;
+  private maxInputChars: number;
+
+  constructor(name: string, definition: TokenizerDefinition) {
+    const model = definition.model;
+    this.vocab = new Map(Object.entries(model.vocab));
+    this.unkToken = model.unk_token ?? '[UNK]';
+    this.prefix = model.continuing_subword_prefix ?? '##';
+    this.maxInputChars = model.max_input_chars_per_word ?? 100;
+    this.normalizer = definition.normalizer;
+
+    (definition.added_tokens || []).forEach(token => {
+      this.specialTokens.set(token.content, token.id);
+    });
+
+    this.info = {
+      name,
+      kind: 'wordpiece',
+      vocabSize: this.vocab.size
+    };
+  }
+
+  encode(text: string): LocalEncoding {
+    const tokens: string[] = [];
+    const tokenIds: number[] = [];
+
+    for (const part of splitOnSpecialTokens(text, this.specialTokens)) {
+      if (part.specialId !== undefined) {
+        tokens.push(part.text);
+        tokenIds.push(part.specialId);
+        continue;
+      }
+
+      // BERT pre-tokenization: split on whitespace and isolate punctuation
+      const words = applyNormalizer(part.text, this.normalizer).match(/[\p{P}\p{S}]|[^\s\p{P}\p{S}]+/gu) || [];
+
+      for (const word of words) {
+        for (const token of this.encodeWord(word)) {
+          // Only the unknown token can be missing: word pieces come from the vocabulary
+          const id = this.vocab.get(token);
+          if (id === undefined) {
+            throw new Error(`"${word}" is not in the tokenizer vocabulary, and the unknown token "${this.unkToken}" is missing too`);
+          }
+          tokens.push(token);
+          tokenIds.push(id);
+        }
+      }
+    }
+
+    return { tokens, tokenIds };
+  }
+
+  private encodeWord(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.maxInputChars) return [this.unkToken];
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let match: string | null = null;
+      while (start < end) {
+        const candidate = (start > 0 ? this.prefix : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          match = candidate;
+          break;
+        }
+        end--;
+      }
+      if (match === null) return [this.unkToken];
+      pieces.push(match);
+      start = end;
+    }
+    return pieces;
+  }
+}
+
+class TiktokenTokenizer implements LocalTokenizer {
+  info: LocalTokenizerInfo;
+  private ranks = new Map<string, number>();
+  private regex: RegExp;
+  private cache = new Map<string, number[]>();
+  private decoded = new Map<number, string>();
+
+  constructor(name: string, content: string) {
+    for (const line of content.split('\n')) {
+      const [encoded, rank] = line.trim().split(/\s+/);
+      if (!encoded || rank === undefined) continue;
+      this.ranks.set(atob(encoded), Number(rank));
+      this.decoded.set(Number(rank), encoded);
+    }
+
+    if (this.ranks.size === 0) {
+      throw new Error('Tiktoken file contains no ranks');
+    }
+
+    this.regex = new RegExp(
+      this.ranks.size > 150000 || /o200k/i.test(name) ? O200K_PATTERN : CL100K_PATTERN,
+      'gu'
+    );
+
+    this.info = {
+      name,
+      kind: 'tiktoken',
+      vocabSize: this.ranks.size
+    };
+  }
+
+  encode(text: string): LocalEncoding {
+    const tokens: string[] = [];
+    const tokenIds: number[] = [];
+
+    for (const piece of splitIsolated(text, this.regex)) {
+      for (const id of this.encodePiece(piece)) {
+        tokenIds.push(id);
+        tokens.push(this.tokenText(id));
+      }
+    }
+
+    return { tokens, tokenIds };
+  }
+
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) return cached;
+
+    // Ranks are keyed by binary strings (one char per byte)
+    const bytes = Array.from(utf8Encoder.encode(piece), byte => String.fromCharCode(byte));
+    const whole = this.ranks.get(bytes.join(''));
+    const ids = whole !== undefined
+      ? [whole]
+      : bytePairMerge(bytes, (left, right) => this.ranks.get(left + right))
+        .map(part => {
+          const rank = this.ranks.get(part);
+          if (rank === undefined) {
+            throw new Error('Tiktoken file has no rank for some bytes in the text. The file is probably incomplete.');
+          }
+          return rank;
+        });
+
+    if (this.cache.size > 50000) this.cache.clear();
+    this.cache.set(piece, ids);
+    return ids;
+  }
+
+  private tokenText(id: number): string {
+    const encoded = this.decoded.get(id);
+    if (!encoded) return '';
+    const binary = atob(encoded);
+    return utf8Decoder.decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  }
+}
+
+/**
+ * Create a tokenizer from the contents of a user-provided file
+ */
+export const createLocalTokenizer = (name: string, content: string): LocalTokenizer => {
+  const trimmed = content.trimStart();
+
+  if (!trimmed.startsWith('{')) {
+    return new TiktokenTokenizer(name, content);
+  }
+
+  let definition: Partial<TokenizerDefinition>;
+  try {
+    definition = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid tokenizer.json: the file is not valid JSON');
+  }
+
+  const model = definition.model;
+  if (!model?.type) {
+    throw new Error('Invalid tokenizer.json: missing model definition');
+  }
+  if (typeof model.vocab !== 'object' || model.vocab === null) {
+    throw new Error('Invalid tokenizer.json: the model has no vocabulary');
+  }
+
+  switch (model.type) {
+    case 'BPE':
+      return new HuggingFaceBpeTokenizer(name, { ...definition, model });
+    case 'WordPiece':
+      return new HuggingFaceWordPieceTokenizer(name, { ...definition, model });
+    default:
+      throw new Error(`Unsupported tokenizer model type: ${model.type}. Only BPE and WordPiece are supported.`);
+  }
+};
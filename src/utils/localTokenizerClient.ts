@@ -0,0 +1,151 @@
+import TokenizerWorker from '../workers/tokenizer.worker?worker';
+import { LocalEncoding, LocalTokenizerInfo } from './localTokenizer';
+import { hashText } from './fileHash';
+
+export type TokenizerWorkerRequest =
+  | { id: number; type: 'load'; tokenizerId: string; name: string; content: string }
+  | { id: number; type: 'tokenize'; tokenizerId: string; text: string }
+  | { id: number; type: 'unload'; tokenizerId: string };
+
+export interface TokenizerWorkerResponse {
+  id: number;
+  ok: boolean;
+  info?: LocalTokenizerInfo;
+  encoding?: LocalEncoding;
+  error?: string;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Main-thread handle to the in-browser tokenizer worker
+ */
+export class LocalTokenizerClient {
+  private static instance: LocalTokenizerClient;
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, {
+    resolve: (response: TokenizerWorkerResponse) => void;
+    reject: (error: Error) => void;
+  }>();
+  private loaded = new Map<string, LocalTokenizerInfo>();
+
+  static getInstance(): LocalTokenizerClient {
+    if (!LocalTokenizerClient.instance) {
+      LocalTokenizerClient.instance = new LocalTokenizerClient();
+    }
+    return LocalTokenizerClient.instance;
+  }
+
+  /**
+   * Load a tokenizer.json or tiktoken rank file provided by the user
+   */
+  async loadFromFile(file: File): Promise<LocalTokenizerInfo> {
+    const content = await file.text();
+    const name = file.name.replace(/(\.tokenizer)?\.(json|tiktoken|txt)$/i, '') || file.name;
+    return this.load(name, content);
+  }
+
+  /**
+   * Load a tokenizer under an id built from its content hash, so files that
+   * share a name load side by side; loading the same file again is a no-op
+   */
+  async load(name: string, content: string): Promise<LocalTokenizerInfo> {
+    const contentHash = await hashText(content);
+    const tokenizerId = `${name}@${contentHash.slice(0, 12)}`;
+    const existing = this.loaded.get(tokenizerId);
+    if (existing) return existing;
+
+    const response = await this.send({ type: 'load', tokenizerId, name, content });
+    if (!response.info) {
+      throw new Error('Tokenizer worker returned no tokenizer information');
+    }
+    const info = { ...response.info, contentHash, id: tokenizerId };
+    this.loaded.set(tokenizerId, info);
+    return info;
+  }
+
+  async unload(tokenizerId: string): Promise<void> {
+    await this.send({ type: 'unload', tokenizerId });
+    this.loaded.delete(tokenizerId);
+  }
+
+  /**
+   * Tokenize text with a loaded tokenizer. Aborting the signal rejects at once;
+   * the worker cannot be interrupted, so its result is dropped when it arrives
+   */
+  async tokenize(tokenizerId: string, text: string, signal?: AbortSignal): Promise<LocalEncoding> {
+    if (!this.loaded.has(tokenizerId)) {
+      throw new Error(`Local tokenizer "${tokenizerId}" is not loaded. Load a tokenizer file in the "Tokenizer Config" section.`);
+    }
+    const response = await this.send({ type: 'tokenize', tokenizerId, text }, signal);
+    if (!response.encoding) {
+      throw new Error('Tokenizer worker returned no tokens');
+    }
+    return response.encoding;
+  }
+
+  getInfo(tokenizerId: string): LocalTokenizerInfo | undefined {
+    return this.loaded.get(tokenizerId);
+  }
+
+  isLoaded(tokenizerId: string): boolean {
+    return this.loaded.has(tokenizerId);
+  }
+
+  getLoadedTokenizers(): LocalTokenizerInfo[] {
+    return [...this.loaded.values()];
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new TokenizerWorker();
+      this.worker.onmessage = (event: MessageEvent<TokenizerWorkerResponse>) => {
+        const handlers = this.pending.get(event.data.id);
+        if (!handlers) return;
+        this.pending.delete(event.data.id);
+        if (event.data.ok) {
+          handlers.resolve(event.data);
+        } else {
+          handlers.reject(new Error(event.data.error || 'Tokenizer worker error'));
+        }
+      };
+      this.worker.onerror = (event) => {
+        console.error('Tokenizer worker crashed:', event.message);
+        this.pending.forEach(handlers => handlers.reject(new Error('Tokenizer worker crashed')));
+        this.pending.clear();
+        this.loaded.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  private send(
+    request: DistributiveOmit<TokenizerWorkerRequest, 'id'>,
+    signal?: AbortSignal
+  ): Promise<TokenizerWorkerResponse> {
+    signal?.throwIfAborted();
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      const cancel = () => {
+        // A late response finds no pending entry and is ignored
+        this.pending.delete(id);
+        reject(signal?.reason instanceof Error ? signal.reason : new Error('Tokenization cancelled'));
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+      this.pending.set(id, {
+        resolve: response => {
+          signal?.removeEventListener('abort', cancel);
+          resolve(response);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', cancel);
+          reject(error);
+        }
+      });
+      this.getWorker().postMessage({ ...request, id } as TokenizerWorkerRequest);
+    });
+  }
+}
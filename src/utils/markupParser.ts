@@ -0,0 +1,223 @@
+/**
+ * Lightweight XML/HTML parser
+ * Builds a small element tree without DOMParser so document formats can be
+ * read anywhere, including inside Web Workers.
+ */
+
+export interface MarkupElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export interface MarkupText {
+  type: 'text';
+  text: string;
+}
+
+export type MarkupNode = MarkupElement | MarkupText;
+
+export interface MarkupParseOptions {
+  // HTML mode: case-insensitive names, void elements and implicitly closed tags
+  html?: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·', deg: '°',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  sect: '§', para: '¶', times: '×', divide: '÷', plusmn: '±', shy: '\u00ad'
+};
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Opening one of these closes an open element of the listed names first
+const IMPLIED_END: Record<string, string[]> = {
+  ...Object.fromEntries(
+    ['p', 'div', 'ul', 'ol', 'dl', 'table', 'pre', 'blockquote', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+      .map(name => [name, ['p']])
+  ),
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option']
+};
+
+// Elements that stop the search for an implicitly closed element
+const SCOPE_BOUNDARIES = new Set(['table', 'ul', 'ol', 'dl', 'select', 'div', 'body', 'html']);
+
+/**
+ * Decode named and numeric character references
+ */
+export const decodeEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+};
+
+const parseAttributes = (source: string, html: boolean): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const name = html ? match[1].toLowerCase() : match[1];
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parse XML or HTML into an element tree rooted at a synthetic `#document` element.
+ * Malformed markup is tolerated: stray closing tags are ignored and unclosed
+ * elements are closed at the end of input.
+ */
+export const parseMarkup = (source: string, options: MarkupParseOptions = {}): MarkupElement => {
+  const html = options.html ?? false;
+  const root: MarkupElement = { type: 'element', name: '#document', attributes: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (text.length === 0) return;
+    const children = current().children;
+    const last = children[children.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else children.push({ type: 'text', text });
+  };
+
+  const closeElement = (name: string, boundaries?: Set<string>) => {
+    for (let index = stack.length - 1; index > 0; index--) {
+      if (stack[index].name === name) {
+        stack.length = index;
+        return;
+      }
+      if (boundaries?.has(stack[index].name)) return;
+    }
+  };
+
+  let position = 0;
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    if (tagStart === -1) {
+      appendText(decodeEntities(source.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(source.slice(position, tagStart)));
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      position = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart + 9);
+      appendText(source.slice(tagStart + 9, end === -1 ? source.length : end));
+      position = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[tagStart + 1] === '?' || source[tagStart + 1] === '!') {
+      // Processing instructions and doctypes carry no text
+      const end = source.indexOf('>', tagStart);
+      position = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = /^<(\/?)([A-Za-z_][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/.exec(source.slice(tagStart, tagStart + 4096));
+    if (!tagMatch) {
+      // A lone '<' is text
+      appendText('<');
+      position = tagStart + 1;
+      continue;
+    }
+
+    const [tag, closing, rawName, rawAttributes, selfClosing] = tagMatch;
+    const name = html ? rawName.toLowerCase() : rawName;
+    position = tagStart + tag.length;
+
+    if (closing) {
+      closeElement(name, html ? SCOPE_BOUNDARIES : undefined);
+      continue;
+    }
+
+    if (html) {
+      IMPLIED_END[name]?.forEach(implied => closeElement(implied, SCOPE_BOUNDARIES));
+    }
+
+    const element: MarkupElement = {
+      type: 'element',
+      name,
+      attributes: parseAttributes(rawAttributes, html),
+      children: []
+    };
+    current().children.push(element);
+
+    if (selfClosing || (html && VOID_ELEMENTS.has(name))) continue;
+
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      const closeTag = new RegExp(`</${name}\\s*>`, 'i');
+      const rest = source.slice(position);
+      const end = rest.search(closeTag);
+      const content = end === -1 ? rest : rest.slice(0, end);
+      if (content.length > 0) {
+        element.children.push({ type: 'text', text: name === 'title' || name === 'textarea' ? decodeEntities(content) : content });
+      }
+      position = end === -1 ? source.length : position + end + (rest.slice(end).match(closeTag)?.[0].length ?? 0);
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return root;
+};
+
+/**
+ * Element name without its namespace prefix ("dc:title" -> "title")
+ */
+export const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+export const childElements = (element: MarkupElement): MarkupElement[] =>
+  element.children.filter((child): child is MarkupElement => child.type === 'element');
+
+/**
+ * All descendant elements matching a name. Names without a prefix match any namespace.
+ */
+export const findAll = (element: MarkupElement, name: string): MarkupElement[] => {
+  const matches: MarkupElement[] = [];
+  const matchesName = (candidate: string) =>
+    candidate === name || (!name.includes(':') && localName(candidate) === name);
+
+  const visit = (node: MarkupElement) => {
+    node.children.forEach(child => {
+      if (child.type !== 'element') return;
+      if (matchesName(child.name)) matches.push(child);
+      visit(child);
+    });
+  };
+  visit(element);
+  return matches;
+};
+
+export const findFirst = (element: MarkupElement, name: string): MarkupElement | undefined =>
+  findAll(element, name)[0];
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export const textContent = (node: MarkupNode): string =>
+  node.type === 'text' ? node.text : node.children.map(textContent).join('');
@@ -0,0 +1,105 @@
+/**
+ * OCR for scanned PDF pages
+ * Runs Tesseract (WASM) in a Web Worker with the engine and English language
+ * data bundled with the app, so no page image ever leaves the browser.
+ */
+
+import { createWorker, OEM, type Worker as TesseractWorker } from 'tesseract.js';
+import TesseractWorkerScript from 'tesseract.js/dist/worker.min.js?url';
+import TesseractCore from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import EnglishData from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { PDFPageProxy } from 'pdfjs-dist';
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence reported by Tesseract, 0-100
+  confidence: number;
+}
+
+// Render at roughly 200 DPI (PDF user space is 72 DPI), which suits Tesseract
+const RENDER_SCALE = 200 / 72;
+// Keep very large pages within a canvas size browsers handle comfortably
+const MAX_CANVAS_DIMENSION = 5000;
+
+export class OcrEngine {
+  private static instance: OcrEngine;
+  private workerPromise: Promise<TesseractWorker> | null = null;
+
+  static getInstance(): OcrEngine {
+    if (!OcrEngine.instance) {
+      OcrEngine.instance = new OcrEngine();
+    }
+    return OcrEngine.instance;
+  }
+
+  /**
+   * Start the Tesseract worker on first use and reuse it afterwards
+   */
+  private getWorker(): Promise<TesseractWorker> {
+    if (!this.workerPromise) {
+      this.workerPromise = (async () => {
+        const response = await fetch(EnglishData);
+        if (!response.ok) {
+          throw new Error(`Failed to load OCR language data (HTTP ${response.status})`);
+        }
+        const data = new Uint8Array(await response.arrayBuffer());
+
+        return createWorker([{ code: 'eng', data }], OEM.LSTM_ONLY, {
+          workerPath: TesseractWorkerScript,
+          corePath: TesseractCore,
+          workerBlobURL: false,
+          cacheMethod: 'none'
+        });
+      })();
+      // Allow a retry after a failed start
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  /**
+   * Render a PDF page to a canvas and recognize its text
+   */
+  async recognizePage(page: PDFPageProxy): Promise<OcrResult> {
+    const baseViewport = page.getViewport({ scale: 1 });
+    const scale = Math.min(RENDER_SCALE, MAX_CANVAS_DIMENSION / Math.max(baseViewport.width, baseViewport.height));
+    const viewport = page.getViewport({ scale });
+
+    // Extraction runs in a worker, which has no DOM canvas
+    const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const canvasContext = canvas.getContext('2d');
+    if (!canvasContext) {
+      throw new Error('Canvas rendering is not available for OCR.');
+    }
+
+    try {
+      // PDF.js types only name DOM canvases, but it renders to offscreen ones as well
+      await page.render({
+        canvas: null,
+        canvasContext: canvasContext as unknown as CanvasRenderingContext2D,
+        viewport,
+        background: 'white'
+      }).promise;
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(canvas);
+      return { text: data.text.trim(), confidence: data.confidence };
+    } finally {
+      // Release the bitmap memory right away; scanned documents can have many pages
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+
+  /**
+   * Stop the worker and free the engine memory
+   */
+  async terminate(): Promise<void> {
+    const workerPromise = this.workerPromise;
+    this.workerPromise = null;
+    if (workerPromise) {
+      await (await workerPromise).terminate();
+    }
+  }
+}
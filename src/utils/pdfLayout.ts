@@ -0,0 +1,394 @@
+/**
+ * PDF layout reconstruction
+ * Rebuilds lines, paragraphs and column reading order from PDF.js text items
+ * using their transform coordinates instead of joining items blindly.
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { normalizeTableRows, toMarkdownTable } from './tables';
+
+export interface LayoutCell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+export interface LayoutLine {
+  text: string;
+  // Position in page units, measured from the top-left corner
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+  column: number;
+  // Runs of text separated by gaps wider than a word space
+  cells: LayoutCell[];
+}
+
+export interface PageLayout {
+  text: string;
+  lines: LayoutLine[];
+  columnCount: number;
+  // Rows of each table detected on the page, in reading order
+  tables: string[][][];
+}
+
+interface PositionedItem {
+  str: string;
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+  hasEOL: boolean;
+  column: number;
+}
+
+// Minimum empty vertical band (as a share of page width) treated as a column gutter
+const MIN_GUTTER_WIDTH = 0.015;
+const HISTOGRAM_BINS = 200;
+// Horizontal gap, in font heights, that separates table cells rather than words
+const CELL_GAP = 1;
+// Minimum rows with two or more cells before aligned lines count as a table
+const MIN_TABLE_ROWS = 3;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toPositionedItems = (items: TextItem[], pageHeight: number): PositionedItem[] => {
+  const positioned: PositionedItem[] = [];
+
+  items.forEach(item => {
+    if (item.str.trim().length === 0) {
+      // Empty items often only carry the end-of-line flag for the previous item
+      if (item.hasEOL && positioned.length > 0) positioned[positioned.length - 1].hasEOL = true;
+      return;
+    }
+
+    const [, , c, d, e, f] = item.transform as number[];
+    const fontSize = Math.hypot(c, d) || item.height || 10;
+    positioned.push({
+      str: item.str,
+      x: e,
+      top: pageHeight - f - fontSize,
+      width: item.width,
+      height: fontSize,
+      hasEOL: item.hasEOL,
+      column: 0
+    });
+  });
+
+  return positioned;
+};
+
+/**
+ * A text column is mostly made of lines that fill its width
+ */
+const isTextColumn = (items: PositionedItem[]): boolean => {
+  const left = Math.min(...items.map(item => item.x));
+  const right = Math.max(...items.map(item => item.x + item.width));
+  const lines = buildLines(items);
+  return right > left && median(lines.map(line => line.width)) >= (right - left) * 0.5;
+};
+
+/**
+ * Find vertical gutters: bands of the page that almost no text item crosses.
+ * Returns the x positions of gutter centres, left to right.
+ */
+const findGutters = (items: PositionedItem[], pageWidth: number): number[] => {
+  if (items.length < 10 || pageWidth <= 0) return [];
+
+  const binWidth = pageWidth / HISTOGRAM_BINS;
+  const coverage = new Array<number>(HISTOGRAM_BINS).fill(0);
+  items.forEach(item => {
+    const first = Math.max(0, Math.floor(item.x / binWidth));
+    const last = Math.min(HISTOGRAM_BINS - 1, Math.floor((item.x + item.width) / binWidth));
+    for (let bin = first; bin <= last; bin++) coverage[bin]++;
+  });
+
+  // Full-width titles and footers cross the gutter, so tolerate a few crossings
+  const tolerance = Math.max(2, Math.floor(items.length * 0.05));
+  const minBins = Math.max(2, Math.ceil(MIN_GUTTER_WIDTH * HISTOGRAM_BINS));
+  const gutters: number[] = [];
+  let runStart = -1;
+
+  for (let bin = 0; bin <= HISTOGRAM_BINS; bin++) {
+    const empty = bin < HISTOGRAM_BINS && coverage[bin] <= tolerance;
+    if (empty && runStart === -1) {
+      runStart = bin;
+    } else if (!empty && runStart !== -1) {
+      const centre = ((runStart + bin) / 2) * binWidth;
+      const inBody = centre > pageWidth * 0.15 && centre < pageWidth * 0.85;
+      if (bin - runStart >= minBins && inBody) {
+        const previousGutter = gutters[gutters.length - 1] ?? 0;
+        const left = items.filter(item => item.x >= previousGutter && item.x + item.width <= centre);
+        const right = items.filter(item => item.x >= centre);
+        // Both sides need real text, not a stray page number, and must read as
+        // running text rather than the label/value pairs of a form
+        if (left.length >= items.length * 0.2 && right.length >= items.length * 0.2
+          && isTextColumn(left) && isTextColumn(right)) {
+          gutters.push(centre);
+        }
+      }
+      runStart = -1;
+    }
+  }
+
+  return gutters;
+};
+
+const assignColumns = (items: PositionedItem[], gutters: number[]) => {
+  items.forEach(item => {
+    const right = item.x + item.width;
+    let column = 0;
+    for (const gutter of gutters) {
+      if (item.x >= gutter) column++;
+    }
+    const crosses = gutters.some(gutter => item.x < gutter && right > gutter);
+    // Items crossing a gutter span the full width (titles, footers)
+    item.column = crosses ? -1 : column;
+  });
+};
+
+/**
+ * Group items of one column into lines by vertical position
+ */
+const buildLines = (items: PositionedItem[]): LayoutLine[] => {
+  const sorted = [...items].sort((a, b) => a.top - b.top || a.x - b.x);
+  const groups: PositionedItem[][] = [];
+
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    const reference = group?.[0];
+    const previous = group?.[group.length - 1];
+    // PDF.js marks explicit line ends; honour them unless the next item is on the same baseline
+    const endedLine = previous?.hasEOL && item.top - previous.top > 0.5;
+    if (reference && !endedLine && Math.abs(item.top - reference.top) < Math.min(item.height, reference.height) * 0.5) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map(group => {
+    const ordered = group.sort((a, b) => a.x - b.x);
+    let text = '';
+    let previousEnd = -Infinity;
+    const cells: LayoutCell[] = [];
+
+    ordered.forEach(item => {
+      const gap = item.x - previousEnd;
+      const needsSpace = text.length > 0 && !/\s$/.test(text) && !/^\s/.test(item.str) && gap > item.height * 0.15;
+      text += (needsSpace ? ' ' : '') + item.str;
+
+      const cell = cells[cells.length - 1];
+      if (cell && gap <= item.height * CELL_GAP) {
+        cell.text += (needsSpace ? ' ' : '') + item.str;
+        cell.right = item.x + item.width;
+      } else {
+        cells.push({ text: item.str, x: item.x, right: item.x + item.width });
+      }
+      previousEnd = item.x + item.width;
+    });
+
+    const left = ordered[0].x;
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: left,
+      top: Math.min(...ordered.map(item => item.top)),
+      width: previousEnd - left,
+      height: Math.max(...ordered.map(item => item.height)),
+      column: ordered[0].column,
+      cells: cells
+        .map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }))
+        .filter(cell => cell.text.length > 0)
+    };
+  }).filter(line => line.text.length > 0);
+};
+
+/**
+ * Join consecutive lines, inserting a blank line where the vertical gap
+ * suggests a paragraph break
+ */
+const joinLines = (lines: LayoutLine[]): string => {
+  if (lines.length === 0) return '';
+
+  const spacings = lines.slice(1)
+    .map((line, index) => line.top - lines[index].top)
+    .filter(spacing => spacing > 0);
+  const typicalSpacing = median(spacings) || median(lines.map(line => line.height)) * 1.2;
+
+  return lines.reduce((text, line, index) => {
+    if (index === 0) return line.text;
+    const gap = line.top - lines[index - 1].top;
+    const paragraphBreak = gap > typicalSpacing * 1.5 || gap < 0;
+    return text + (paragraphBreak ? '\n\n' : '\n') + line.text;
+  }, '');
+};
+
+interface DetectedTable {
+  start: number;
+  end: number;
+  rows: string[][];
+}
+
+/**
+ * Merge overlapping cell extents into column bands
+ */
+const columnBands = (rows: LayoutCell[][]): Array<[number, number]> => {
+  const extents = rows.flat().map(cell => [cell.x, cell.right] as [number, number]).sort((a, b) => a[0] - b[0]);
+  const bands: Array<[number, number]> = [];
+  extents.forEach(([left, right]) => {
+    const band = bands[bands.length - 1];
+    if (band && left < band[1]) band[1] = Math.max(band[1], right);
+    else bands.push([left, right]);
+  });
+  return bands;
+};
+
+/**
+ * Place each cell of each row in its column band; null when two cells of one
+ * row would share a band, meaning the rows do not form a grid
+ */
+const toGrid = (rows: LayoutCell[][], bands: Array<[number, number]>): string[][] | null => {
+  const grid: string[][] = [];
+  for (const row of rows) {
+    const cells = new Array<string>(bands.length).fill('');
+    for (const cell of row) {
+      const band = bands.findIndex(([left, right]) => cell.x >= left && cell.right <= right);
+      if (band === -1 || cells[band]) return null;
+      cells[band] = cell.text;
+    }
+    grid.push(cells);
+  }
+  return grid;
+};
+
+/**
+ * Find runs of consecutive lines whose cells line up in shared columns.
+ * Single-cell lines directly under a row are treated as wrapped cell text.
+ */
+const detectTables = (lines: LayoutLine[]): DetectedTable[] => {
+  const tables: DetectedTable[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].cells.length < 2) {
+      index++;
+      continue;
+    }
+
+    // Each row keeps its cells; wrapped lines are folded into the row above
+    const rows: LayoutCell[][] = [lines[index].cells.map(cell => ({ ...cell }))];
+    let gridRows = 1;
+    let end = index + 1;
+
+    while (end < lines.length) {
+      const line = lines[end];
+      const previous = lines[end - 1];
+      const gap = line.top - previous.top;
+      if (gap <= 0 || gap > Math.max(line.height, previous.height) * 3) break;
+
+      if (line.cells.length >= 2) {
+        const candidate = [...rows, line.cells];
+        if (!toGrid(candidate, columnBands(candidate))) break;
+        rows.push(line.cells.map(cell => ({ ...cell })));
+        gridRows++;
+      } else if (gap <= line.height * 1.4) {
+        const [wrapped] = line.cells;
+        const bands = columnBands(rows);
+        const band = bands.findIndex(([left, right]) => wrapped.x >= left - 1 && wrapped.right <= right + 1);
+        const target = band === -1
+          ? undefined
+          : rows[rows.length - 1].find(cell => cell.x >= bands[band][0] && cell.right <= bands[band][1]);
+        if (!target) break;
+        target.text += ' ' + wrapped.text;
+      } else {
+        break;
+      }
+      end++;
+    }
+
+    const bands = columnBands(rows);
+    const grid = gridRows >= MIN_TABLE_ROWS && bands.length >= 2 ? toGrid(rows, bands) : null;
+    if (grid) {
+      tables.push({ start: index, end, rows: normalizeTableRows(grid) });
+      index = end;
+    } else {
+      index++;
+    }
+  }
+
+  return tables;
+};
+
+/**
+ * Render a block of lines, replacing detected tables with Markdown
+ */
+const renderBlock = (lines: LayoutLine[], tables: string[][][]): string => {
+  const parts: string[] = [];
+  let position = 0;
+
+  detectTables(lines).forEach(table => {
+    parts.push(joinLines(lines.slice(position, table.start)));
+    parts.push(toMarkdownTable(table.rows));
+    tables.push(table.rows);
+    position = table.end;
+  });
+  parts.push(joinLines(lines.slice(position)));
+
+  return parts.filter(part => part.length > 0).join('\n\n');
+};
+
+/**
+ * Rebuild the readable text of a page from its PDF.js text items
+ */
+export const buildPageLayout = (items: TextItem[], pageWidth: number, pageHeight: number): PageLayout => {
+  const positioned = toPositionedItems(items, pageHeight);
+  const gutters = findGutters(positioned, pageWidth);
+  assignColumns(positioned, gutters);
+
+  const columnCount = gutters.length + 1;
+  const spanning = buildLines(positioned.filter(item => item.column === -1));
+  const columns = Array.from({ length: columnCount }, (_, column) =>
+    buildLines(positioned.filter(item => item.column === column))
+  );
+
+  // Full-width lines split the page into sections; each section is read column by column
+  const blocks: LayoutLine[][] = [];
+  const orderedLines: LayoutLine[] = [];
+  let sectionTop = -Infinity;
+
+  [...spanning, null].forEach(separator => {
+    const sectionBottom = separator ? separator.top : Infinity;
+    columns.forEach(columnLines => {
+      const section = columnLines.filter(line => line.top >= sectionTop && line.top < sectionBottom);
+      if (section.length > 0) {
+        blocks.push(section);
+        orderedLines.push(...section);
+      }
+    });
+
+    if (separator) {
+      const previous = blocks[blocks.length - 1];
+      // Consecutive full-width lines belong to the same block
+      if (previous && previous[0].column === -1 && separator.top - previous[previous.length - 1].top < separator.height * 2) {
+        previous.push(separator);
+      } else {
+        blocks.push([separator]);
+      }
+      orderedLines.push(separator);
+      sectionTop = separator.top + 0.01;
+    }
+  });
+
+  const tables: string[][][] = [];
+  return {
+    text: blocks.map(block => renderBlock(block, tables)).filter(block => block.length > 0).join('\n\n'),
+    lines: orderedLines,
+    columnCount,
+    tables
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PII_SETTINGS, redactDocumentForExport } from './piiRedaction';
+import { DEFAULT_PREPROCESSING } from './textPreprocessing';
+import { ExtractedDocument } from '../types';
+
+describe('redactDocumentForExport', () => {
+  it('redacts the file name, archive path and producing applications', () => {
+    const document: ExtractedDocument = {
+      id: 'doc-1',
+      fileName: 'Jane Doe - jane.doe@example.com.pdf',
+      fileType: 'pdf',
+      extractedText: 'Contact Jane Doe at jane.doe@example.com.',
+      wordCount: 6,
+      extractedAt: new Date(0),
+      preprocessing: { ...DEFAULT_PREPROCESSING, pii: DEFAULT_PII_SETTINGS },
+      piiReplacements: [
+        { type: 'name', value: 'Jane Doe', replacement: '[NAME_1]', count: 1 },
+        { type: 'email', value: 'jane.doe@example.com', replacement: '[EMAIL_1]', count: 1 }
+      ],
+      metadata: {
+        creator: 'Word for Jane Doe',
+        producer: 'Scanned by jane.doe@example.com',
+        archivePath: 'applicants/Jane Doe/jane.doe@example.com.pdf'
+      }
+    };
+
+    const exported = redactDocumentForExport(document);
+
+    expect(exported.fileName).toBe('[NAME_1] - [EMAIL_1].pdf');
+    expect(exported.metadata?.creator).toBe('Word for [NAME_1]');
+    expect(exported.metadata?.producer).toBe('Scanned by [EMAIL_1]');
+    expect(exported.metadata?.archivePath).toBe('applicants/[NAME_1]/[EMAIL_1].pdf');
+    expect(exported.extractedText).toBe('Contact [NAME_1] at [EMAIL_1].');
+    expect(exported.piiReplacements).toBeUndefined();
+  });
+});
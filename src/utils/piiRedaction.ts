@@ -0,0 +1,464 @@
+import { ExtractedDocument, PiiEntityType, PiiLocale, PiiReplacement, PiiSettings, PiiSummary } from '../types';
+
+/**
+ * Personal data detection and redaction
+ * Finds names, email addresses, phone numbers, IBANs, postal addresses and
+ * national ID numbers with local rules, so documents can be cleaned before
+ * any text is sent to a tokenizer backend or exported. Each distinct value
+ * gets one replacement per document, so the same person stays the same
+ * placeholder throughout.
+ */
+
+export interface PiiEntity {
+  type: PiiEntityType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface PiiPattern {
+  type: PiiEntityType;
+  // Must have the 'g' flag
+  pattern: RegExp;
+  // Group holding the value when the pattern also matches a cue such as a label; it must end the match
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+export interface PiiRuleSet {
+  label: string;
+  patterns: PiiPattern[];
+}
+
+export const PII_TYPE_LABELS: Record<PiiEntityType, string> = {
+  name: 'Names',
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  iban: 'IBANs',
+  address: 'Addresses',
+  'national-id': 'National IDs'
+};
+
+const PII_TAGS: Record<PiiEntityType, string> = {
+  name: 'NAME',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  iban: 'IBAN',
+  address: 'ADDRESS',
+  'national-id': 'ID_NUMBER'
+};
+
+export const DEFAULT_PII_SETTINGS: PiiSettings = {
+  locale: 'en-US',
+  mode: 'pseudonymize',
+  types: Object.keys(PII_TYPE_LABELS) as PiiEntityType[]
+};
+
+const digitCount = (value: string): number => value.replace(/\D/g, '').length;
+
+// ISO 13616 check digits: the rearranged IBAN, letters as numbers, is 1 modulo 97
+const isValidIban = (value: string): boolean => {
+  const iban = value.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// A capitalized word that is not a field label itself, so "Name: Jane Doe Email:" stops before "Email"
+const NAME_WORD = "\\p{Lu}[\\p{L}'’-]+(?![\\p{L}'’-]|[ \\t]*:)";
+const NAME = `${NAME_WORD}(?:[ \\t]+(?:(?:van|von|de|der|den|du|le|la|di|da)[ \\t]+)?${NAME_WORD}){0,3}`;
+
+// Capitalized words after a label or title that are not part of a person's name
+const NAME_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'at', 'by', 'with', 'from', 'as', 'is', 'are', 'be',
+  'this', 'that', 'these', 'those', 'our', 'your', 'their', 'his', 'her', 'its', 'we', 'you', 'they', 'it', 'all',
+  'any', 'each', 'every', 'no', 'not', 'none', 'n/a', 'yes', 'please', 'see', 'refer', 'contact', 'tbd', 'tba',
+  'same', 'above', 'below', 'other', 'details', 'information', 'name', 'signature', 'date', 'applicant',
+  'der', 'die', 'das', 'und', 'oder', 'für', 'mit', 'siehe', 'bitte', 'keine', 'unser', 'unsere',
+  'le', 'la', 'les', 'et', 'ou', 'pour', 'avec', 'voir', 'aucun', 'notre', 'nos'
+]);
+// A name ending in one of these, or containing one, is an organization or project
+const ORGANIZATION_WORDS = new Set([
+  'team', 'group', 'study', 'project', 'programme', 'program', 'department', 'dept', 'office', 'university',
+  'institute', 'centre', 'center', 'foundation', 'council', 'committee', 'board', 'ltd', 'inc', 'llc', 'llp',
+  'plc', 'corp', 'corporation', 'company', 'co', 'association', 'society', 'trust', 'lab', 'laboratory',
+  'unit', 'division', 'school', 'college', 'hospital', 'ministry', 'agency', 'network', 'consortium',
+  'partners', 'services', 'solutions', 'gmbh', 'ag', 'ev', 'e.v', 'verein', 'stiftung', 'sa', 'sarl', 'sas'
+]);
+// Nouns such as "Adaptation", "Management" or "Methodology" are not names
+const COMMON_NOUN_ENDING = /(?:tion|sion|ment|ness|ity|ology)$/i;
+
+/**
+ * Whether a capitalized phrase found through a label or title could be a
+ * person's name: enough capitalized words, none of them a common word or
+ * an organization word. Particles such as "van" do not count.
+ */
+const isPlausibleName = (value: string, minWords: number): boolean => {
+  const words = value.split(/\s+/).filter(word => /^\p{Lu}/u.test(word));
+  return words.length >= minWords && words.every(word => {
+    const lower = word.toLowerCase().replace(/[.'’]+$/, '');
+    return !NAME_STOP_WORDS.has(lower) && !ORGANIZATION_WORDS.has(lower) && !COMMON_NOUN_ENDING.test(lower);
+  });
+};
+
+// Only full names are looked for elsewhere in the text; a lone surname would match too much
+const MIN_SWEPT_NAME_WORDS = 2;
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * A name after a field label such as "Applicant:", in any of the label's
+ * usual capitalizations, on the same line or the next
+ */
+const labelledName = (labels: string[]): PiiPattern => {
+  const variants = labels.flatMap(label => [
+    label,
+    capitalize(label),
+    label.split(' ').map(capitalize).join(' '),
+    label.toUpperCase()
+  ]);
+  const alternatives = [...new Set(variants)].map(label => label.replace(/ /g, '[ \\t]+')).join('|');
+  return {
+    type: 'name',
+    pattern: new RegExp(`(?<![\\p{L}])(?:${alternatives})[ \\t]*:[ \\t]*(?:\\n[ \\t]*)?(${NAME})`, 'gu'),
+    group: 1,
+    // A label is followed by all sorts of text, so only a full name counts
+    validate: value => isPlausibleName(value, 2)
+  };
+};
+
+// A name after one or more titles, such as "Dr." or "Frau Prof."
+const titledName = (titles: string[]): PiiPattern => {
+  const title = `(?:${titles.join('|')})`;
+  return {
+    type: 'name',
+    pattern: new RegExp(`(?<![\\p{L}])${title}(?:[ \\t]+${title})*[ \\t]+(${NAME})`, 'gu'),
+    group: 1,
+    validate: value => isPlausibleName(value, 1)
+  };
+};
+
+// Patterns that do not depend on the locale
+const COMMON_PATTERNS: PiiPattern[] = [
+  { type: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: isValidIban },
+  {
+    type: 'phone',
+    pattern: /\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,6}(?!\d)/g,
+    validate: value => digitCount(value) >= 8 && digitCount(value) <= 15
+  }
+];
+
+const ENGLISH_NAME_LABELS = [
+  'name', 'full name', 'applicant', 'applicant name', 'contact', 'contact person', 'principal investigator',
+  'project lead', 'signed', 'signature', 'prepared by', 'submitted by', 'authorized signatory',
+  'authorised signatory', 'account holder', 'beneficiary'
+];
+const ENGLISH_TITLES = ['Mr\\.?', 'Mrs\\.?', 'Ms\\.?', 'Miss', 'Mx\\.?', 'Dr\\.?', 'Prof\\.?', 'Sir', 'Dame'];
+
+/**
+ * Rule sets per locale; the common patterns apply to every locale.
+ * Patterns earlier in a list win when matches of the same length overlap.
+ */
+export const PII_LOCALES: Record<PiiLocale, PiiRuleSet> = {
+  'en-US': {
+    label: 'English (US)',
+    patterns: [
+      { type: 'national-id', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+      { type: 'phone', pattern: /(?:\(\d{3}\)[ \t]?|\b\d{3}[-. ])\d{3}[-. ]\d{4}\b/g },
+      {
+        type: 'address',
+        pattern: /\b\d{1,5}[ \t]+(?:[\p{Lu}\d][\p{L}\d.'-]*[ \t]+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Parkway|Pkwy|Terrace|Circle)\b\.?(?:,?[ \t]+(?:Apt|Suite|Unit|#)\.?[ \t]*[\p{L}\d-]+)?(?:,[ \t]*(?:\p{Lu}[\p{L}.'-]*[ \t]?){1,3},?[ \t]+[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?)?/gu
+      },
+      labelledName(ENGLISH_NAME_LABELS),
+      titledName(ENGLISH_TITLES)
+    ]
+  },
+  'en-GB': {
+    label: 'English (UK)',
+    patterns: [
+      { type: 'national-id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g },
+      {
+        type: 'phone',
+        pattern: /\b0\d{2,4}[ -]?\d{3,4}[ -]?\d{3,4}\b/g,
+        validate: value => digitCount(value) >= 10 && digitCount(value) <= 11
+      },
+      {
+        type: 'address',
+        pattern: /\b\d{1,4}[a-zA-Z]?[ \t]+(?:\p{Lu}[\p{L}'-]*[ \t]+){1,4}(?:Road|Street|Lane|Avenue|Close|Drive|Way|Crescent|Gardens|Place|Square|Terrace|Grove|Hill|Court|Row|Mews)\b(?:,[ \t]*(?:\p{Lu}[\p{Ll}'-]+[ \t]?){1,3})?(?:,?[ \t]*[A-Z]{1,2}\d[A-Z\d]?[ \t]?\d[A-Z]{2}\b)?/gu
+      },
+      // A postcode on its own still narrows an address down to a few houses
+      { type: 'address', pattern: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/g },
+      labelledName(ENGLISH_NAME_LABELS),
+      titledName(ENGLISH_TITLES)
+    ]
+  },
+  'de-DE': {
+    label: 'Deutsch',
+    patterns: [
+      // Tax and ID card numbers look like any other number, so they need their label
+      {
+        type: 'national-id',
+        pattern: /(?<![\p{L}])(?:Steuer-?ID|Steueridentifikationsnummer|Identifikationsnummer|IdNr\.?)[ \t]*:?[ \t]*(\d{2} ?\d{3} ?\d{3} ?\d{3})\b/gu,
+        group: 1
+      },
+      {
+        type: 'national-id',
+        pattern: /(?<![\p{L}])(?:Personalausweisnummer|Personalausweis|Ausweisnummer|Ausweis-Nr\.?)[ \t]*:?[ \t]*([CFGHJKLMNPRTVWXYZ0-9]{9,10})\b/gu,
+        group: 1
+      },
+      // Sozialversicherungsnummer
+      { type: 'national-id', pattern: /\b\d{2} ?\d{6} ?[A-Z] ?\d{3}\b/g },
+      {
+        type: 'phone',
+        pattern: /\b0\d{2,5}(?:[ /-]| \/ )?\d{3,}(?:[ -]\d{1,5})?\b/g,
+        validate: value => digitCount(value) >= 8 && digitCount(value) <= 12
+      },
+      {
+        type: 'address',
+        pattern: /(?<![\p{L}\p{N}])(?:\p{Lu}[\p{L}-]*(?:straße|strasse|str\.|weg|platz|allee|gasse|ring|damm|ufer)|(?:\p{Lu}[\p{L}-]*[ \t]){1,2}(?:Straße|Strasse|Str\.|Weg|Platz|Allee|Gasse|Ring|Damm))[ \t]*\d{1,4}[ \t]?[a-z]?\b(?:,?[ \t]*\d{5}[ \t]+\p{Lu}[\p{L}-]*(?:[ \t]\p{Lu}[\p{L}-]*)?)?/gu
+      },
+      labelledName([
+        'name', 'vorname', 'nachname', 'antragsteller', 'antragstellerin', 'ansprechpartner', 'ansprechpartnerin',
+        'projektleiter', 'projektleiterin', 'unterschrift', 'kontoinhaber', 'kontoinhaberin'
+      ]),
+      titledName(['Herr', 'Herrn', 'Frau', 'Dr\\.?', 'Prof\\.?'])
+    ]
+  },
+  'fr-FR': {
+    label: 'Français',
+    patterns: [
+      // Numéro de sécurité sociale (NIR)
+      { type: 'national-id', pattern: /\b[12] ?\d{2} ?(?:0[1-9]|1[0-2]) ?(?:\d{2}|2[AB]) ?\d{3} ?\d{3}(?: ?\d{2})?\b/g },
+      { type: 'phone', pattern: /\b0[1-9](?:[ .-]?\d{2}){4}\b/g },
+      {
+        type: 'address',
+        pattern: /\b\d{1,4}(?:[ \t]?(?:bis|ter))?,?[ \t]+(?:[Rr]ue|[Aa]venue|[Aa]v\.|[Bb]oulevard|[Bb]d|[Pp]lace|[Cc]hemin|[Aa]llée|[Ii]mpasse|[Qq]uai|[Rr]oute|[Cc]ours)[ \t]+(?:(?:de|du|des|la|le|l'|l’|d'|d’)[ \t]?)*(?:\p{Lu}[\p{L}'’-]*[ \t]?){1,4}(?:,?[ \t]*\d{5}[ \t]+\p{Lu}[\p{L}-]*)?/gu
+      },
+      labelledName([
+        'nom', 'prénom', 'nom complet', 'demandeur', 'demandeuse', 'contact', 'responsable',
+        'porteur du projet', 'signature', 'titulaire du compte'
+      ]),
+      titledName(['M\\.', 'Mme', 'Mlle', 'Monsieur', 'Madame', 'Dr\\.?', 'Pr\\.?'])
+    ]
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find personal data in a text. Full names found through a label or title
+ * are also found wherever else they appear, as are knownNames.
+ */
+export const detectPii = (text: string, settings: PiiSettings, knownNames: string[] = []): PiiEntity[] => {
+  const patterns = [...COMMON_PATTERNS, ...PII_LOCALES[settings.locale].patterns]
+    .filter(({ type }) => settings.types.includes(type));
+
+  const found: PiiEntity[] = [];
+  for (const { type, pattern, group, validate } of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const value = group ? match[group] : match[0];
+      if (!value || (validate && !validate(value))) continue;
+      const end = (match.index ?? 0) + match[0].length;
+      found.push({ type, start: end - value.length, end, value });
+    }
+  }
+
+  if (settings.types.includes('name')) {
+    const names = new Set(
+      [...knownNames, ...found.filter(entity => entity.type === 'name').map(entity => entity.value)]
+        .filter(name => isPlausibleName(name, MIN_SWEPT_NAME_WORDS))
+    );
+    // Forms often capitalize names throughout, so case is ignored
+    for (const name of names) {
+      const pattern = new RegExp(`(?<![\\p{L}])${escapeRegExp(name).replace(/\s+/g, '\\s+')}(?![\\p{L}])`, 'giu');
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        found.push({ type: 'name', start, end: start + match[0].length, value: match[0] });
+      }
+    }
+  }
+
+  // Where matches overlap, the earliest and then the longest wins
+  found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const entities: PiiEntity[] = [];
+  for (const entity of found) {
+    const previous = entities[entities.length - 1];
+    if (!previous || entity.start >= previous.end) {
+      entities.push(entity);
+    }
+  }
+  return entities;
+};
+
+// The same value written differently ("+49 30 1234", "+49-30-1234") shares a replacement
+const entityKey = (type: PiiEntityType, value: string): string => {
+  switch (type) {
+    case 'name':
+    case 'address':
+    case 'email':
+      return `${type}:${value.replace(/\s+/g, ' ').trim().toLowerCase()}`;
+    default:
+      return `${type}:${value.replace(/[^\p{L}\p{N}]/gu, '').toUpperCase()}`;
+  }
+};
+
+const maskValue = (type: PiiEntityType, value: string): string => {
+  const maskAlphanumerics = (text: string, keepEnd = 0, keepStart = 0) => {
+    const total = text.replace(/[^\p{L}\p{N}]/gu, '').length;
+    let index = 0;
+    return text.replace(/[\p{L}\p{N}]/gu, char => {
+      const position = index++;
+      return position < keepStart || position >= total - keepEnd ? char : '*';
+    });
+  };
+
+  switch (type) {
+    case 'name':
+      return value.replace(/[\p{L}'’-]+/gu, word => word.charAt(0) + '*'.repeat(Math.max(word.length - 1, 1)));
+    case 'email': {
+      const at = value.lastIndexOf('@');
+      const domain = value.slice(at + 1);
+      const topLevel = domain.slice(domain.lastIndexOf('.'));
+      return `${value.charAt(0)}***@${'*'.repeat(Math.max(domain.length - topLevel.length, 1))}${topLevel}`;
+    }
+    case 'iban':
+      return maskAlphanumerics(value, 4, 2);
+    case 'phone':
+    case 'national-id':
+      return maskAlphanumerics(value, 2);
+    case 'address':
+      return maskAlphanumerics(value);
+  }
+};
+
+/**
+ * Hands out replacements, reusing the one a value already has. Seeded with a
+ * document's replacements, it redacts more of that document consistently.
+ */
+const createReplacer = (settings: PiiSettings, known: PiiReplacement[] = []) => {
+  const byKey = new Map(known.map(entry => [entityKey(entry.type, entry.value), { ...entry, count: 0 }]));
+
+  const replace = (type: PiiEntityType, value: string): string => {
+    const key = entityKey(type, value);
+    let entry = byKey.get(key);
+    if (!entry) {
+      const number = [...byKey.values()].filter(existing => existing.type === type).length + 1;
+      const replacement = settings.mode === 'redact'
+        ? `[${PII_TAGS[type]}]`
+        : settings.mode === 'mask'
+          ? maskValue(type, value)
+          : `[${PII_TAGS[type]}_${number}]`;
+      entry = { type, value: value.replace(/\s+/g, ' ').trim(), replacement, count: 0 };
+      byKey.set(key, entry);
+    }
+    entry.count++;
+    return entry.replacement;
+  };
+
+  const redact = (text: string): string => {
+    const knownNames = [...byKey.values()].filter(entry => entry.type === 'name').map(entry => entry.value);
+    let result = '';
+    let position = 0;
+    for (const entity of detectPii(text, settings, knownNames)) {
+      result += text.slice(position, entity.start) + replace(entity.type, entity.value);
+      position = entity.end;
+    }
+    return result + text.slice(position);
+  };
+
+  const replacements = (): PiiReplacement[] => [...byKey.values()].filter(entry => entry.count > 0);
+
+  return { replace, redact, replacements };
+};
+
+/**
+ * Replace the personal data in a text according to the settings' mode
+ */
+export const redactPii = (
+  text: string,
+  settings: PiiSettings,
+  known?: PiiReplacement[]
+): { text: string; replacements: PiiReplacement[] } => {
+  const replacer = createReplacer(settings, known);
+  return { text: replacer.redact(text), replacements: replacer.replacements() };
+};
+
+export const summarizePii = (replacements: PiiReplacement[]): PiiSummary => {
+  const byType: PiiSummary['byType'] = {};
+  let entityCount = 0;
+  for (const { type, count } of replacements) {
+    byType[type] = (byType[type] ?? 0) + count;
+    entityCount += count;
+  }
+  return { entityCount, byType };
+};
+
+/**
+ * A copy of a document fit for export: personal data is replaced in every
+ * text it carries, with the same replacements as its preprocessed text, and
+ * the review list of original values is left out. Documents processed
+ * without redaction are returned as they are.
+ */
+export const redactDocumentForExport = (document: ExtractedDocument): ExtractedDocument => {
+  const settings = document.preprocessing?.pii;
+  if (!settings) return document;
+
+  const replacer = createReplacer(settings, document.piiReplacements);
+  const { redact } = replacer;
+  // Keep the extension out of reach of the email pattern, which would take it for part of a domain
+  const redactPath = (path: string): string => {
+    const dot = path.lastIndexOf('.');
+    return dot > path.lastIndexOf('/') + 1 ? redact(path.slice(0, dot)) + path.slice(dot) : redact(path);
+  };
+  // Removed header and footer lines and budget previews quote the document
+  const stats = document.metadata?.preprocessingStats;
+  const preprocessingStats = stats && {
+    ...stats,
+    boilerplate: stats.boilerplate && {
+      ...stats.boilerplate,
+      removed: stats.boilerplate.removed.map(item => ({ ...item, text: redact(item.text) }))
+    },
+    budget: stats.budget && {
+      ...stats.budget,
+      steps: stats.budget.steps.map(step => ({ ...step, removed: step.removed.map(redact) }))
+    }
+  };
+  const metadata = document.metadata && {
+    ...document.metadata,
+    author: document.metadata.author && settings.types.includes('name')
+      ? replacer.replace('name', document.metadata.author)
+      : document.metadata.author,
+    title: document.metadata.title && redact(document.metadata.title),
+    subject: document.metadata.subject && redact(document.metadata.subject),
+    keywords: document.metadata.keywords && redact(document.metadata.keywords),
+    creator: document.metadata.creator && redact(document.metadata.creator),
+    producer: document.metadata.producer && redact(document.metadata.producer),
+    archivePath: document.metadata.archivePath && redactPath(document.metadata.archivePath),
+    preprocessingStats
+  };
+
+  return {
+    ...document,
+    // File names often carry the name or address of the person a document is about
+    fileName: redactPath(document.fileName),
+    extractedText: redact(document.extractedText),
+    markdownText: document.markdownText && redact(document.markdownText),
+    pages: document.pages?.map(page => ({
+      ...page,
+      text: redact(page.text),
+      edgeLines: page.edgeLines?.map(line => ({ ...line, text: redact(line.text) }))
+    })),
+    tables: document.tables?.map(table => ({
+      ...table,
+      rows: table.rows.map(row => row.map(redact)),
+      markdown: redact(table.markdown)
+    })),
+    piiReplacements: undefined,
+    metadata
+  };
+};
@@ -0,0 +1,236 @@
+import { PreprocessingRule, PreprocessingRulePreset, PreprocessingRuleType } from '../types';
+
+/**
+ * User-defined preprocessing rules
+ * An ordered list of small text transformations applied after the built-in
+ * preprocessing steps, so misfiring patterns can be replaced or corrected
+ * without code changes.
+ */
+
+export interface CompiledRule {
+  regex: RegExp;
+  replacement: string | ((match: string) => string);
+}
+
+export interface RuleTypeDefinition {
+  label: string;
+  description: string;
+  // Whether the rule needs a user pattern and a replacement
+  usesPattern: boolean;
+  usesReplacement: boolean;
+  compile: (rule: PreprocessingRule) => CompiledRule;
+}
+
+export interface RuleStep {
+  rule: PreprocessingRule;
+  // Text after this rule; the input is the previous step's output
+  output: string;
+  matches: number;
+  error?: string;
+}
+
+const ALLOWED_FLAGS = 'imsu';
+
+const patternRegex = (rule: PreprocessingRule, source = rule.pattern ?? '', extraFlags = ''): RegExp => {
+  if (!rule.pattern) {
+    throw new Error('A pattern is required');
+  }
+  const flags = new Set(['g', ...(rule.flags ?? '').split('').filter(flag => ALLOWED_FLAGS.includes(flag)), ...extraFlags]);
+  try {
+    return new RegExp(source, [...flags].join(''));
+  } catch (error) {
+    throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const RULE_TYPES: Record<PreprocessingRuleType, RuleTypeDefinition> = {
+  replace: {
+    label: 'Find and replace',
+    description: 'Replace every match; $1, $2... insert captured groups',
+    usesPattern: true,
+    usesReplacement: true,
+    compile: rule => ({ regex: patternRegex(rule), replacement: rule.replacement ?? '' })
+  },
+  strip: {
+    label: 'Strip pattern',
+    description: 'Delete every match',
+    usesPattern: true,
+    usesReplacement: false,
+    compile: rule => ({ regex: patternRegex(rule), replacement: '' })
+  },
+  'remove-lines': {
+    label: 'Remove lines',
+    description: 'Delete every line containing a match',
+    usesPattern: true,
+    usesReplacement: false,
+    compile: rule => ({
+      regex: patternRegex(rule, `^[^\\n]*(?:${rule.pattern})[^\\n]*(?:\\n|$)`, 'm'),
+      replacement: ''
+    })
+  },
+  'insert-break': {
+    label: 'Insert break',
+    description: 'Start a new paragraph before every match',
+    usesPattern: true,
+    usesReplacement: false,
+    compile: rule => ({ regex: patternRegex(rule), replacement: '\n\n$&' })
+  },
+  'collapse-whitespace': {
+    label: 'Collapse whitespace',
+    description: 'Turn runs of spaces and tabs into one space and keep at most one blank line',
+    usesPattern: false,
+    usesReplacement: false,
+    compile: () => ({
+      regex: /\n{3,}|[^\S\n]{2,}|[^\S\n ]/g,
+      replacement: match => (match.includes('\n') ? '\n\n' : ' ')
+    })
+  },
+  'trim-lines': {
+    label: 'Trim lines',
+    description: 'Remove spaces at the start and end of every line',
+    usesPattern: false,
+    usesReplacement: false,
+    compile: () => ({ regex: /^[^\S\n]+|[^\S\n]+$/gm, replacement: '' })
+  }
+};
+
+let nextRuleNumber = 1;
+
+export const createRule = (type: PreprocessingRuleType, fields: Partial<PreprocessingRule> = {}): PreprocessingRule => ({
+  enabled: true,
+  ...fields,
+  id: `rule-${Date.now().toString(36)}-${nextRuleNumber++}`,
+  type
+});
+
+/**
+ * Why a rule cannot run, or undefined when it is valid
+ */
+export const validateRule = (rule: PreprocessingRule): string | undefined => {
+  try {
+    RULE_TYPES[rule.type].compile(rule);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid rule';
+  }
+};
+
+const applyRule = (text: string, { regex, replacement }: CompiledRule): string =>
+  typeof replacement === 'string' ? text.replace(regex, replacement) : text.replace(regex, replacement);
+
+/**
+ * Apply the enabled rules in order. Invalid rules are skipped; the editor
+ * reports them.
+ */
+export const applyRules = (text: string, rules: PreprocessingRule[] = []): string =>
+  rules.reduce((current, rule) => {
+    if (!rule.enabled) return current;
+    try {
+      return applyRule(current, RULE_TYPES[rule.type].compile(rule));
+    } catch {
+      return current;
+    }
+  }, text);
+
+/**
+ * Apply the rules one by one, keeping each intermediate text and match count
+ * for the preview
+ */
+export const traceRules = (text: string, rules: PreprocessingRule[]): RuleStep[] => {
+  const steps: RuleStep[] = [];
+  let current = text;
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      steps.push({ rule, output: current, matches: 0 });
+      continue;
+    }
+    try {
+      const compiled = RULE_TYPES[rule.type].compile(rule);
+      const matches = current.match(compiled.regex)?.length ?? 0;
+      current = applyRule(current, compiled);
+      steps.push({ rule, output: current, matches });
+    } catch (error) {
+      steps.push({ rule, output: current, matches: 0, error: error instanceof Error ? error.message : 'Invalid rule' });
+    }
+  }
+  return steps;
+};
+
+/**
+ * Presets that ship with the app. The first restates the built-in field and
+ * header markers as rules, so they can be adjusted after turning the built-in
+ * options off.
+ */
+export const BUILT_IN_RULE_PRESETS: PreprocessingRulePreset[] = [
+  {
+    name: 'Built-in markers (editable)',
+    rules: [
+      createRule('replace', {
+        pattern: '([A-ZÀ-Ÿ][A-ZÀ-Ÿ\\s]{2,})\\s*:',
+        replacement: '\n$1:',
+        note: 'Field markers'
+      }),
+      createRule('insert-break', {
+        pattern: '[A-ZÀ-Ÿ]{3,}[A-ZÀ-Ÿ\\s]+[A-ZÀ-Ÿ]{3,}',
+        note: 'Header markers'
+      })
+    ]
+  },
+  {
+    name: 'Page furniture',
+    rules: [
+      createRule('remove-lines', { pattern: '^[ \\t]*(?:page[ \\t]+)?\\d+(?:[ \\t]*(?:of|/)[ \\t]*\\d+)?[ \\t]*$', flags: 'i', note: 'Page numbers' }),
+      createRule('trim-lines'),
+      createRule('collapse-whitespace')
+    ]
+  }
+];
+
+/**
+ * JSON for exporting a preset; rule ids are local and left out
+ */
+export const serializeRulePreset = (preset: PreprocessingRulePreset): string =>
+  JSON.stringify({
+    name: preset.name,
+    rules: preset.rules.map(({ type, enabled, pattern, flags, replacement, note }) => ({ type, enabled, pattern, flags, replacement, note }))
+  }, null, 2);
+
+/**
+ * Check the shape of a preset read from a file or from storage, giving its rules fresh ids
+ */
+export const toRulePreset = (data: unknown): PreprocessingRulePreset => {
+  const preset = data as Partial<PreprocessingRulePreset> | null;
+  if (!preset || typeof preset.name !== 'string' || !Array.isArray(preset.rules)) {
+    throw new Error('The preset needs a "name" and a "rules" list.');
+  }
+
+  const rules = preset.rules.map((rule, index) => {
+    // Own keys only: "toString" and the like are inherited by every object
+    if (!rule || typeof rule.type !== 'string' || !Object.prototype.hasOwnProperty.call(RULE_TYPES, rule.type)) {
+      throw new Error(`Rule ${index + 1} has an unknown type "${rule?.type}".`);
+    }
+    const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    return createRule(rule.type, {
+      enabled: rule.enabled !== false,
+      pattern: optionalString(rule.pattern),
+      flags: optionalString(rule.flags),
+      replacement: optionalString(rule.replacement),
+      note: optionalString(rule.note)
+    });
+  });
+
+  return { name: preset.name.trim() || 'Imported preset', rules };
+};
+
+/**
+ * Read an exported preset, giving its rules fresh ids
+ */
+export const parseRulePreset = (json: string): PreprocessingRulePreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The preset file is not valid JSON.');
+  }
+  return toRulePreset(data);
+};
@@ -0,0 +1,64 @@
+import { PreprocessingRulePreset } from '../types';
+import { toRulePreset } from './preprocessingRules';
+
+// Presets are small and read synchronously by the rule editor, so localStorage suffices
+const STORAGE_KEY = 'grant-preprocessing-rule-presets';
+
+/**
+ * Rule presets saved by the user, kept in this browser
+ */
+export class RulePresetStore {
+  private static instance: RulePresetStore;
+
+  static getInstance(): RulePresetStore {
+    if (!RulePresetStore.instance) {
+      RulePresetStore.instance = new RulePresetStore();
+    }
+    return RulePresetStore.instance;
+  }
+
+  /**
+   * Saved presets; entries that are not valid presets (edited by hand, or from
+   * an older version) are skipped
+   */
+  list(): PreprocessingRulePreset[] {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    } catch (error) {
+      console.warn('Failed to read saved rule presets:', error);
+      return [];
+    }
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(entry => {
+      try {
+        return [toRulePreset(entry)];
+      } catch (error) {
+        console.warn('Skipping invalid saved rule preset:', error);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Save a preset, replacing any saved preset with the same name
+   */
+  save(preset: PreprocessingRulePreset): void {
+    const presets = this.list().filter(existing => existing.name !== preset.name);
+    this.write([...presets, preset].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  delete(name: string): void {
+    this.write(this.list().filter(preset => preset.name !== name));
+  }
+
+  private write(presets: PreprocessingRulePreset[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.error('Failed to save rule presets:', error);
+      throw new Error('Failed to save the preset. Browser storage may be full or disabled.');
+    }
+  }
+}
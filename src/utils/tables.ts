@@ -0,0 +1,148 @@
+/**
+ * Table utilities
+ * Converts table rows into Markdown and keeps Markdown tables intact while
+ * the rest of a document's text is reflowed.
+ */
+
+import { childElements, MarkupElement, MarkupNode } from './markupParser';
+
+// Private-use characters delimit placeholders so no real text can collide with them
+const PLACEHOLDER_START = '\uE000';
+const PLACEHOLDER_END = '\uE001';
+const PLACEHOLDER_PATTERN = /[ \t]*\uE000(\d+)\uE001[ \t]*/g;
+
+// Consecutive lines that start and end with a pipe, one of them a |---| separator row
+const MARKDOWN_TABLE_BLOCK = /(^|\n)((?:[ \t]*\|[^\n]*\|[ \t]*(?:\n|$))+)/g;
+const SEPARATOR_ROW = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/m;
+
+const cleanCell = (cell: string): string => cell.replace(/\s+/g, ' ').trim();
+
+// Paragraphs and line breaks inside a cell become spaces rather than running together
+const cellText = (node: MarkupNode): string => {
+  if (node.type === 'text') return node.text;
+  if (node.name === 'br') return ' ';
+  const text = node.children.map(cellText).join('');
+  return ['p', 'div', 'li'].includes(node.name) ? ` ${text} ` : text;
+};
+
+/**
+ * Pad rows to the same width and drop rows and columns that are entirely empty
+ */
+export const normalizeTableRows = (rows: string[][]): string[][] => {
+  const cleaned = rows
+    .map(row => row.map(cleanCell))
+    .filter(row => row.some(cell => cell.length > 0));
+  const width = Math.max(0, ...cleaned.map(row => row.length));
+  const padded = cleaned.map(row => [...row, ...new Array<string>(width - row.length).fill('')]);
+  const keptColumns = Array.from({ length: width }, (_, column) => column)
+    .filter(column => padded.some(row => row[column].length > 0));
+  return padded.map(row => keptColumns.map(column => row[column]));
+};
+
+/**
+ * Render rows as a Markdown table, using the first row as the header
+ */
+export const toMarkdownTable = (rows: string[][]): string => {
+  const normalized = normalizeTableRows(rows);
+  if (normalized.length === 0) return '';
+
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+  const line = (row: string[]) => `| ${row.map(escape).join(' | ')} |`;
+  const [header, ...body] = normalized;
+
+  return [line(header), line(header.map(() => '---')), ...body.map(line)].join('\n');
+};
+
+/**
+ * Read the cells of an HTML table into a grid, expanding colspan and rowspan
+ * so every row has one entry per column
+ */
+export const readHtmlTable = (table: MarkupElement): string[][] => {
+  const rows: MarkupElement[] = [];
+  const collectRows = (element: MarkupElement) => {
+    childElements(element).forEach(child => {
+      if (child.name === 'tr') rows.push(child);
+      // Rows may sit inside thead/tbody/tfoot, but nested tables are separate
+      else if (child.name !== 'table') collectRows(child);
+    });
+  };
+  collectRows(table);
+
+  const grid: string[][] = [];
+  // Rows still covered by a rowspan from an earlier row, by column
+  const pending = new Map<number, number>();
+
+  rows.forEach((row, rowIndex) => {
+    const cells: string[] = [];
+    const placeSpanned = () => {
+      let remaining = pending.get(cells.length);
+      while (remaining) {
+        if (remaining === 1) pending.delete(cells.length);
+        else pending.set(cells.length, remaining - 1);
+        cells.push('');
+        remaining = pending.get(cells.length);
+      }
+    };
+
+    childElements(row)
+      .filter(cell => cell.name === 'td' || cell.name === 'th')
+      .forEach(cell => {
+        placeSpanned();
+        const colspan = Math.max(1, parseInt(cell.attributes.colspan ?? '1', 10) || 1);
+        const rowspan = Math.max(1, parseInt(cell.attributes.rowspan ?? '1', 10) || 1);
+        const text = cleanCell(cellText(cell));
+        for (let offset = 0; offset < colspan; offset++) {
+          if (rowspan > 1) pending.set(cells.length, rowspan - 1);
+          cells.push(offset === 0 ? text : '');
+        }
+      });
+    placeSpanned();
+
+    grid[rowIndex] = cells;
+  });
+
+  return grid;
+};
+
+/**
+ * Parse the Markdown tables in a text back into rows of cells
+ */
+export const findMarkdownTables = (text: string): string[][][] => {
+  const tables: string[][][] = [];
+  for (const match of text.matchAll(MARKDOWN_TABLE_BLOCK)) {
+    const block = match[2];
+    if (!SEPARATOR_ROW.test(block)) continue;
+    const rows = block
+      .trim()
+      .split('\n')
+      .filter(line => !/^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/.test(line))
+      .map(line => line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|')));
+    tables.push(normalizeTableRows(rows));
+  }
+  return tables;
+};
+
+/**
+ * Swap Markdown tables for placeholders so whitespace normalization cannot
+ * flatten their rows
+ */
+export const protectMarkdownTables = (text: string): { text: string; tables: string[] } => {
+  const tables: string[] = [];
+  const protectedText = text.replace(MARKDOWN_TABLE_BLOCK, (match, leading: string, block: string) => {
+    if (!SEPARATOR_ROW.test(block)) return match;
+    tables.push(block.trim());
+    return `${leading}${PLACEHOLDER_START}${tables.length - 1}${PLACEHOLDER_END}\n`;
+  });
+  return { text: protectedText, tables };
+};
+
+/**
+ * Put protected tables back, each as its own paragraph
+ */
+export const restoreMarkdownTables = (text: string, tables: string[]): string => {
+  if (tables.length === 0) return text;
+  return text
+    .replace(PLACEHOLDER_PATTERN, (_, index: string) => `\n\n${tables[Number(index)] ?? ''}\n\n`)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,144 @@
+/**
+ * Character encoding detection for text files
+ * File.text() always decodes as UTF-8, which garbles files saved by older
+ * systems in Latin-1, Windows code pages or UTF-16. The encoding comes from a
+ * byte order mark when there is one, otherwise from the byte patterns.
+ */
+
+export interface TextEncodingOption {
+  // WHATWG encoding label accepted by TextDecoder
+  id: string;
+  label: string;
+}
+
+export const TEXT_ENCODINGS: TextEncodingOption[] = [
+  { id: 'utf-8', label: 'Unicode (UTF-8)' },
+  { id: 'utf-16le', label: 'Unicode (UTF-16 LE)' },
+  { id: 'utf-16be', label: 'Unicode (UTF-16 BE)' },
+  // Browsers decode ISO-8859-1 as its Windows-1252 superset
+  { id: 'windows-1252', label: 'Western European (Windows-1252, Latin-1)' },
+  { id: 'iso-8859-15', label: 'Western European (ISO-8859-15)' },
+  { id: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { id: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { id: 'macintosh', label: 'Western European (Mac OS Roman)' }
+];
+
+// Single-byte encodings tried when the content is not valid UTF-8, most common first
+const SINGLE_BYTE_CANDIDATES = ['windows-1252', 'windows-1250', 'windows-1251'];
+
+// Bytes scored when choosing between single-byte encodings
+const SAMPLE_BYTES = 256 * 1024;
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+const encodingFromBom = (bytes: Uint8Array): string | undefined => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+};
+
+/**
+ * UTF-16 without a BOM: ASCII-range text leaves every other byte NUL
+ */
+const guessUtf16 = (bytes: Uint8Array): string | undefined => {
+  const length = Math.min(bytes.length, SAMPLE_BYTES) & ~1;
+  if (length < 4) return undefined;
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let index = 0; index < length; index += 2) {
+    if (bytes[index] === 0) evenNuls++;
+    if (bytes[index + 1] === 0) oddNuls++;
+  }
+  const pairs = length / 2;
+  if (oddNuls > pairs * 0.3 && evenNuls < pairs * 0.05) return 'utf-16le';
+  if (evenNuls > pairs * 0.3 && oddNuls < pairs * 0.05) return 'utf-16be';
+  return undefined;
+};
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const LETTER = /\p{L}/u;
+const CYRILLIC = /\p{Script=Cyrillic}/u;
+const WORD = /\p{L}+/gu;
+
+/**
+ * How plausible a decoding is as natural-language text; higher is better.
+ * Wrong code pages show up as symbols in the middle of words, unassigned
+ * characters, and (for Latin decodings of Cyrillic) words made almost entirely
+ * of accented letters.
+ */
+const plausibility = (text: string, encoding: string): number => {
+  let score = 0;
+  const chars = [...text];
+
+  chars.forEach((char, index) => {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) return;
+    if (char === '\uFFFD' || code < 0xa0) {
+      score -= 5;
+    } else if (LETTER.test(char)) {
+      score += 1;
+    } else if (LETTER.test(chars[index - 1] ?? '') && LETTER.test(chars[index + 1] ?? '')) {
+      score -= 2;
+    }
+  });
+
+  for (const [word] of text.matchAll(WORD)) {
+    const accented = [...word].filter(char => char.charCodeAt(0) >= 0x80).length;
+    if (encoding === 'windows-1251') {
+      // Cyrillic words do not mix in Latin letters
+      if (accented > 0 && accented < word.length && [...word].some(char => CYRILLIC.test(char))) score -= 2;
+    } else if (accented >= 3 && accented > word.length / 2) {
+      score -= accented;
+    }
+  }
+  return score;
+};
+
+/**
+ * Work out which encoding a text file was saved in
+ */
+export const detectEncoding = (bytes: Uint8Array): string => {
+  const bomEncoding = encodingFromBom(bytes);
+  if (bomEncoding) return bomEncoding;
+
+  const utf16 = guessUtf16(bytes);
+  if (utf16) return utf16;
+
+  // Pure ASCII is valid UTF-8, and other single-byte text almost never is
+  if (isValidUtf8(bytes)) return 'utf-8';
+
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  let best = SINGLE_BYTE_CANDIDATES[0];
+  let bestScore = -Infinity;
+  SINGLE_BYTE_CANDIDATES.forEach(encoding => {
+    const score = plausibility(new TextDecoder(encoding).decode(sample), encoding);
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Read a file as text in the given encoding, or in the detected one. Any byte
+ * order mark is dropped.
+ */
+export const readText = async (file: Blob, encoding?: string): Promise<DecodedText> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const resolved = encoding ?? detectEncoding(bytes);
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+};
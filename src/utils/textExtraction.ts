@@ -1,11 +1,29 @@
-import { ExtractedDocument, ProcessingStatus } from '../types';
-import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
-import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
-import { TextPreprocessor } from './textPreprocessing';
+import { DocumentPage, ExtractedDocument, FileTypeDetection, PreprocessingSettings, ProcessingStatus, TokenizedData } from '../types';
 import { TokenizationService } from './tokenization';
+import { DEFAULT_PREPROCESSING, TextPreprocessor } from './textPreprocessing';
+import { TextChunker, DEFAULT_CHUNKING_OPTIONS } from './chunking';
+import { FormatExtractorRegistry } from './formatExtractors';
+import { ARCHIVE_FORMAT, detectFileType } from './fileTypeDetection';
+import { ExtractionWorkerPool } from './extractionWorkerPool';
+import type { PreprocessedExtraction } from './extractionPipeline';
+import { compressToBudget } from './tokenBudget';
 
-// Set up PDF.js worker
-GlobalWorkerOptions.workerSrc = PdfWorker;
+export interface ExtractionOptions {
+  // Where the file was unpacked from when it came out of a ZIP archive
+  archivePath?: string;
+  // Key for progress statuses; the archive path or file name by default
+  statusId?: string;
+  // Stable id for the document, so extracting the same content again replaces it; a new id each time by default
+  documentId?: string;
+  // Result of an earlier detectFileType call, so the content is not sniffed twice
+  detection?: FileTypeDetection;
+  // Character encoding chosen by the user for a text file
+  encoding?: string;
+  // Profile and options for preprocessing; the generic profile by default
+  preprocessing?: PreprocessingSettings;
+  // Cancels extraction and tokenization; the status becomes 'cancelled'
+  signal?: AbortSignal;
+}
 
 export class DocumentExtractor {
   private static instance: DocumentExtractor;
@@ -17,165 +35,98 @@ export class DocumentExtractor {
     return DocumentExtractor.instance;
   }
 
-  async extractFromPDF(file: File, onProgress?: (status: ProcessingStatus) => void): Promise<string> {
-    try {
-      onProgress?.({
-        id: file.name,
-        status: 'extracting',
-        progress: 10,
-        message: 'Loading PDF document...'
-      });
-
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await getDocument({ data: arrayBuffer }).promise;
-      
-      let fullText = '';
-      const totalPages = pdf.numPages;
-
-      for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-        onProgress?.({
-          id: file.name,
-          status: 'extracting',
-          progress: Math.round((pageNum / totalPages) * 80) + 10,
-          message: `Extracting text from page ${pageNum} of ${totalPages}...`
-        });
-
-        const page = await pdf.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ');
-        
-        fullText += pageText + '\n\n';
-      }
-
-      return fullText.trim();
-    } catch (error) {
-      console.error('PDF extraction error:', error);
-      throw new Error('Failed to extract text from PDF. Please ensure the file is not corrupted.');
-    }
-  }
-
-  async extractFromDocx(file: File, onProgress?: (status: ProcessingStatus) => void): Promise<string> {
-    try {
-      onProgress?.({
-        id: file.name,
-        status: 'extracting',
-        progress: 20,
-        message: 'Reading Word document...'
-      });
-
-      const mammoth = await import('mammoth');
-      const arrayBuffer = await file.arrayBuffer();
-      
-      onProgress?.({
-        id: file.name,
-        status: 'extracting',
-        progress: 60,
-        message: 'Extracting text content...'
-      });
-
-      const result = await mammoth.extractRawText({ arrayBuffer });
-      
-      if (result.messages.length > 0) {
-        console.warn('Word extraction warnings:', result.messages);
-      }
-
-      return result.value;
-    } catch (error) {
-      console.error('DOCX extraction error:', error);
-      throw new Error('Failed to extract text from Word document. Please ensure the file is not corrupted.');
-    }
-  }
-
-  async extractFromText(file: File, onProgress?: (status: ProcessingStatus) => void): Promise<string> {
-    try {
-      onProgress?.({
-        id: file.name,
-        status: 'extracting',
-        progress: 50,
-        message: 'Reading text file...'
-      });
-
-      const text = await file.text();
-      return text;
-    } catch (error) {
-      console.error('Text extraction error:', error);
-      throw new Error('Failed to read text file.');
-    }
-  }
-
-  async extractText(file: File, onProgress?: (status: ProcessingStatus) => void): Promise<ExtractedDocument> {
+  async extractText(
+    file: File,
+    onProgress?: (status: ProcessingStatus) => void,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractedDocument> {
     const startTime = Date.now();
+    // Archive entries can share a file name, so their status is keyed by path
+    const statusId = options.statusId ?? options.archivePath ?? file.name;
+    const preprocessing = options.preprocessing ?? DEFAULT_PREPROCESSING;
     
     try {
       onProgress?.({
-        id: file.name,
+        id: statusId,
         status: 'extracting',
         progress: 5,
         message: 'Starting text extraction...'
       });
 
-      let extractedText: string;
-
-      switch (file.type) {
-        case 'application/pdf':
-          extractedText = await this.extractFromPDF(file, onProgress);
-          break;
-        case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-          extractedText = await this.extractFromDocx(file, onProgress);
-          break;
-        case 'application/msword':
-          throw new Error('Legacy .doc files are not supported. Please convert to .docx format.');
-        case 'text/plain':
-          extractedText = await this.extractFromText(file, onProgress);
-          break;
-        default:
-          throw new Error(`Unsupported file type: ${file.type}`);
+      // The content decides the extractor; the extension and MIME type only break ties
+      const detection = options.detection ?? await detectFileType(file);
+      if (!detection.format || detection.format === ARCHIVE_FORMAT) {
+        throw new Error(detection.warning ?? `Unsupported file type: ${file.type || file.name}`);
       }
+      const extractor = FormatExtractorRegistry.getInstance().get(detection.format);
+      options.signal?.throwIfAborted();
+
+      // Extraction and preprocessing run in a worker; tokenizing needs the UI's tokenizer settings
+      const { extraction, ...preprocessed } = await ExtractionWorkerPool.getInstance().run(
+        file,
+        { format: extractor.id, encoding: options.encoding, preprocessing },
+        (progress, message) => {
+          onProgress?.({
+            id: statusId,
+            status: 'extracting',
+            progress,
+            message
+          });
+        },
+        options.signal
+      );
+
+      const { text: extractedText, markdown, pages, tables, properties, ocrPages, warnings } = extraction;
 
       onProgress?.({
-        id: file.name,
+        id: statusId,
         status: 'extracting',
         progress: 95,
         message: 'Finalizing extraction...'
       });
 
       const wordCount = extractedText.split(/\s+/).filter(word => word.length > 0).length;
-      const processingTime = Date.now() - startTime;
 
-      // Preprocess text for LLM consumption
-      const preprocessor = TextPreprocessor.getInstance();
-      const preprocessedText = preprocessor.preprocessText(extractedText);
-      const preprocessingStats = preprocessor.getPreprocessingStats(extractedText, preprocessedText);
+      const { preprocessedText, preprocessingStats, piiReplacements } = await this.fitToBudget(
+        extractedText,
+        pages,
+        preprocessing,
+        preprocessed,
+        message => {
+          onProgress?.({
+            id: statusId,
+            status: 'extracting',
+            progress: 95,
+            message: `Token budget: ${message}`
+          });
+        },
+        options.signal
+      );
+      const processingTime = Date.now() - startTime;
 
       // Tokenize the preprocessed text
       onProgress?.({
-        id: file.name,
+        id: statusId,
         status: 'extracting',
         progress: 96,
         message: 'Tokenizing text...'
       });
 
-      let tokenizedData;
-      try {
-        const tokenizer = TokenizationService.getInstance();
-        tokenizedData = await tokenizer.tokenizeText(
-          preprocessedText,
-          (progress, message) => {
-            onProgress?.({
-              id: file.name,
-              status: 'extracting',
-              progress: 96 + (progress * 0.03), // Use remaining 3% for tokenization
-              message: `Tokenization: ${message}`
-            });
-          }
-        );
-      } catch (tokenError) {
-        console.warn('Tokenization failed (Azure Function may not be configured or accessible), continuing without tokenized data:', tokenError);
-        // Don't fail the entire extraction if tokenization fails
+      const tokenizedData = await this.tokenize(
+        preprocessedText,
+        (progress, message) => {
+          onProgress?.({
+            id: statusId,
+            status: 'extracting',
+            progress: 96 + (progress * 0.03), // Use remaining 3% for tokenization
+            message: `Tokenization: ${message}`
+          });
+        },
+        options.signal
+      );
+      if (!tokenizedData) {
         onProgress?.({
-          id: file.name,
+          id: statusId,
           status: 'extracting',
           progress: 99,
           message: 'Tokenization unavailable, finalizing extraction...'
@@ -183,32 +134,70 @@ export class DocumentExtractor {
       }
 
       const result: ExtractedDocument = {
-        id: `${file.name}-${startTime}`,
+        id: options.documentId ?? `${statusId}-${startTime}`,
         fileName: file.name,
-        fileType: file.type,
+        // A declared type that the content contradicts would mislabel the document
+        fileType: file.type && detection.format === detection.declaredFormat ? file.type : extractor.mimeTypes[0],
         extractedText,
         preprocessedText,
+        markdownText: markdown,
         tokenizedData,
+        preprocessing,
+        piiReplacements,
+        pages,
+        tables: tables?.length ? tables : undefined,
         wordCount,
         extractedAt: new Date(),
         metadata: {
+          ...properties,
+          pageCount: pages?.length ?? properties?.pageCount,
+          ocrPages: ocrPages?.length ? ocrPages : undefined,
+          archivePath: options.archivePath,
           preprocessingStats
         }
       };
 
+      // Split into context-window-sized chunks, using real token counts when available
+      result.chunkingOptions = DEFAULT_CHUNKING_OPTIONS;
+      result.chunks = TextChunker.getInstance().chunkDocument(result, DEFAULT_CHUNKING_OPTIONS);
+
+      const completionWarnings = [...(detection.warning ? [detection.warning] : []), ...(warnings ?? [])];
+      if (wordCount === 0) {
+        completionWarnings.push('No text could be extracted from this document');
+      }
+      const budget = preprocessingStats.budget;
+      if (budget && budget.finalTokens > budget.maxTokens) {
+        completionWarnings.push(`Still ${budget.finalTokens.toLocaleString()} tokens, over the ${budget.maxTokens.toLocaleString()}-token budget`);
+      }
+
       onProgress?.({
-        id: file.name,
+        id: statusId,
         status: 'completed',
         progress: 100,
-        message: `Extraction completed in ${Math.round(processingTime / 1000)}s. ${wordCount} words extracted.`
+        message: `Extraction completed in ${Math.round(processingTime / 1000)}s. ${wordCount} words extracted, ${result.chunks.length} chunks.`
+          + (ocrPages?.length ? ` ${ocrPages.length} page${ocrPages.length === 1 ? '' : 's'} OCR'd.` : '')
+          + (tokenizedData?.fromCache ? ' Tokens loaded from cache.' : ''),
+        tokensFromCache: tokenizedData?.fromCache,
+        ocrPages: ocrPages?.length ? ocrPages : undefined,
+        warnings: completionWarnings.length > 0 ? completionWarnings : undefined
       });
 
       return result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        onProgress?.({
+          id: statusId,
+          status: 'cancelled',
+          progress: 0,
+          message: 'Cancelled'
+        });
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown extraction error';
       
       onProgress?.({
-        id: file.name,
+        id: statusId,
         status: 'error',
         progress: 0,
         message: 'Extraction failed',
@@ -218,4 +207,118 @@ export class DocumentExtractor {
       throw error;
     }
   }
+
+  /**
+   * Preprocess an extracted document again with other settings, then tokenize
+   * and chunk the new text. The original file is not read again.
+   */
+  async reprocessDocument(
+    document: ExtractedDocument,
+    preprocessing: PreprocessingSettings,
+    onProgress?: (progress: number, message: string) => void,
+    signal?: AbortSignal
+  ): Promise<ExtractedDocument> {
+    onProgress?.(10, 'Preprocessing text...');
+    const preprocessor = TextPreprocessor.getInstance();
+    const preprocessed = preprocessor.preprocess(document.extractedText, preprocessing, document.pages);
+    const { preprocessedText, preprocessingStats, piiReplacements } = await this.fitToBudget(
+      document.extractedText,
+      document.pages,
+      preprocessing,
+      {
+        preprocessedText: preprocessed.text,
+        preprocessingStats: preprocessor.getPreprocessingStats(
+          document.extractedText,
+          preprocessed.text,
+          preprocessed.boilerplate,
+          preprocessed.piiReplacements
+        ),
+        piiReplacements: preprocessed.piiReplacements
+      },
+      message => onProgress?.(15, `Token budget: ${message}`),
+      signal
+    );
+
+    const tokenizedData = await this.tokenize(
+      preprocessedText,
+      (progress, message) => onProgress?.(20 + progress * 0.7, `Tokenization: ${message}`),
+      signal
+    );
+
+    onProgress?.(95, 'Chunking...');
+    const result: ExtractedDocument = {
+      ...document,
+      preprocessedText,
+      preprocessing,
+      piiReplacements,
+      tokenizedData,
+      // Comparisons were made on the previous text
+      modelComparisons: undefined,
+      metadata: { ...document.metadata, preprocessingStats }
+    };
+    result.chunkingOptions = document.chunkingOptions ?? DEFAULT_CHUNKING_OPTIONS;
+    result.chunks = TextChunker.getInstance().chunkDocument(result, result.chunkingOptions);
+
+    onProgress?.(100, 'Reprocessing completed.');
+    return result;
+  }
+
+  /**
+   * Compress preprocessed text to the settings' token budget, if they have one.
+   * Counts come from the active tokenizer, whose cache then serves the final
+   * tokenization.
+   */
+  private async fitToBudget(
+    rawText: string,
+    pages: DocumentPage[] | undefined,
+    preprocessing: PreprocessingSettings,
+    preprocessed: Omit<PreprocessedExtraction, 'extraction'>,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal
+  ): Promise<Omit<PreprocessedExtraction, 'extraction'>> {
+    if (!preprocessing.tokenBudget) return preprocessed;
+
+    const tokenizer = TokenizationService.getInstance();
+    const { text, report, piiReplacements, boilerplate: budgetBoilerplate } = await compressToBudget({
+      rawText,
+      pages,
+      settings: preprocessing,
+      text: preprocessed.preprocessedText,
+      budget: preprocessing.tokenBudget,
+      measure: async candidate => (await tokenizer.tokenizeText(candidate, undefined, { signal })).tokenCount,
+      onProgress,
+      signal
+    });
+
+    // The budget's boilerplate step preprocessed the text again, so its report replaces the earlier one
+    const boilerplate = budgetBoilerplate ?? preprocessed.preprocessingStats.boilerplate;
+    const pii = piiReplacements ?? preprocessed.piiReplacements;
+    return {
+      preprocessedText: text,
+      preprocessingStats: {
+        ...TextPreprocessor.getInstance().getPreprocessingStats(rawText, text, boilerplate, pii),
+        budget: report
+      },
+      piiReplacements: pii
+    };
+  }
+
+  /**
+   * Tokenize with the configured backend, or return undefined when it fails:
+   * a document is still usable without tokens
+   */
+  private async tokenize(
+    text: string,
+    onProgress: (progress: number, message: string) => void,
+    signal?: AbortSignal
+  ): Promise<TokenizedData | undefined> {
+    try {
+      return await TokenizationService.getInstance().tokenizeText(text, onProgress, { signal });
+    } catch (tokenError) {
+      // Cancelling is not a tokenizer failure; the caller reports it
+      signal?.throwIfAborted();
+      console.warn('Tokenization failed (tokenizer backend may not be configured or accessible), continuing without tokenized data:', tokenError);
+      return undefined;
+    }
+  }
 }
\ No newline at end of file
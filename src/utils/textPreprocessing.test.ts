@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREPROCESSING, TextPreprocessor } from './textPreprocessing';
+import { BUILT_IN_RULE_PRESETS } from './preprocessingRules';
+
+const pageFurniture = BUILT_IN_RULE_PRESETS.find(preset => preset.name === 'Page furniture')!;
+
+describe('TextPreprocessor.preprocess', () => {
+  it('runs line-based rules before the profile collapses whitespace', () => {
+    const rawText = [
+      'The project studies river restoration.',
+      'Page 1 of 3',
+      'Funding covers two field seasons.',
+      '  2  ',
+      'Results are shared with local councils.'
+    ].join('\n');
+
+    const { text } = TextPreprocessor.getInstance().preprocess(rawText, {
+      ...DEFAULT_PREPROCESSING,
+      rules: pageFurniture.rules
+    });
+
+    expect(text).not.toMatch(/Page 1 of 3/);
+    expect(text).not.toMatch(/\b2\b/);
+    expect(text).toContain('The project studies river restoration.');
+    expect(text).toContain('Funding covers two field seasons.');
+    expect(text).toContain('Results are shared with local councils.');
+  });
+});
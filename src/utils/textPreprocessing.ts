@@ -3,13 +3,61 @@
  * Preserves case and punctuation while improving structure and readability
  */
 
-export interface PreprocessingOptions {
-  preserveOriginalStructure?: boolean;
-  addFieldMarkers?: boolean;
-  addHeaderMarkers?: boolean;
-  normalizeWhitespace?: boolean;
+import { BoilerplateReport, DocumentPage, PiiReplacement, PreprocessingOptions, PreprocessingProfileId, PreprocessingSettings } from '../types';
+import { protectMarkdownTables, restoreMarkdownTables } from './tables';
+import { applyRules } from './preprocessingRules';
+import { removeBoilerplate } from './boilerplate';
+import { redactPii, summarizePii } from './piiRedaction';
+
+export interface PreprocessingResult {
+  text: string;
+  boilerplate?: BoilerplateReport;
+  // Personal data replaced in the text, when redaction is on
+  piiReplacements?: PiiReplacement[];
 }
 
+export interface PreprocessingProfile {
+  label: string;
+  description: string;
+  options: Required<PreprocessingOptions>;
+}
+
+const GENERIC_OPTIONS: Required<PreprocessingOptions> = {
+  preserveOriginalStructure: false,
+  addFieldMarkers: true,
+  addHeaderMarkers: true,
+  normalizeWhitespace: true,
+  addGrantSectionMarkers: false,
+  addFormMarkers: false,
+  removeBoilerplate: true
+};
+
+/**
+ * Named option sets offered in the UI; anything else is the custom profile
+ */
+export const PREPROCESSING_PROFILES: Record<Exclude<PreprocessingProfileId, 'custom'>, PreprocessingProfile> = {
+  generic: {
+    label: 'Generic',
+    description: 'Removes repeated headers and footers, cleans up whitespace and adds field and header markers',
+    options: GENERIC_OPTIONS
+  },
+  grant: {
+    label: 'Grant application',
+    description: 'Generic, plus breaks before grant sections and numbered or lettered items',
+    options: { ...GENERIC_OPTIONS, addGrantSectionMarkers: true }
+  },
+  form: {
+    label: 'Form',
+    description: 'Generic, plus checkbox items and signature lines on their own lines',
+    options: { ...GENERIC_OPTIONS, addFormMarkers: true }
+  }
+};
+
+export const DEFAULT_PREPROCESSING: PreprocessingSettings = {
+  profile: 'generic',
+  options: PREPROCESSING_PROFILES.generic.options
+};
+
 export class TextPreprocessor {
   private static instance: TextPreprocessor;
 
@@ -32,12 +80,19 @@ export class TextPreprocessor {
       preserveOriginalStructure = false,
       addFieldMarkers = true,
       addHeaderMarkers = true,
-      normalizeWhitespace = true
+      normalizeWhitespace = true,
+      addGrantSectionMarkers = false,
+      addFormMarkers = false
     } = options;
 
-    let cleaned = rawText;
+    // Markdown tables are set aside so their rows are not collapsed into one line
+    const { text: unprotected, tables } = protectMarkdownTables(rawText);
+    let cleaned = unprotected;
 
-    if (normalizeWhitespace) {
+    if (normalizeWhitespace && preserveOriginalStructure) {
+      // Collapse runs of spaces and tabs but keep the line breaks
+      cleaned = cleaned.replace(/[^\S\n]+/g, ' ').replace(/ ?\n ?/g, '\n');
+    } else if (normalizeWhitespace) {
       // Remove excessive whitespace but preserve single spaces
       cleaned = cleaned.replace(/\s+/g, ' ');
     }
@@ -60,13 +115,77 @@ export class TextPreprocessor {
       );
     }
 
+    if (addGrantSectionMarkers) {
+      // Match common grant section headers
+      cleaned = cleaned.replace(
+        /(PROJECT\s+DESCRIPTION|BUDGET\s+JUSTIFICATION|TIMELINE|OBJECTIVES|METHODOLOGY|EVALUATION|IMPACT)/gi,
+        '\n\n$1\n'
+      );
+
+      // Match numbered sections (1., 2., etc.)
+      cleaned = cleaned.replace(
+        /(\n|^)(\d+\.\s*[A-ZÀ-Ÿ][^.\n]*)/g,
+        '\n\n$2'
+      );
+
+      // Match lettered sections (a., b., etc.)
+      cleaned = cleaned.replace(
+        /(\n|^)([a-z]\.\s*[A-ZÀ-Ÿ][^.\n]*)/g,
+        '\n\n$2'
+      );
+    }
+
+    if (addFormMarkers) {
+      // Match checkbox patterns
+      cleaned = cleaned.replace(
+        /(\☐|\□|\◻|\▢)\s*([A-ZÀ-Ÿ][^☐□◻▢\n]*)/g,
+        '\n$2'
+      );
+
+      // Match filled checkbox patterns
+      cleaned = cleaned.replace(
+        /(\☑|\■|\◼|\▣|✓|✔)\s*([A-ZÀ-Ÿ][^☑■◼▣✓✔\n]*)/g,
+        '\n$2'
+      );
+
+      // Match signature lines
+      cleaned = cleaned.replace(
+        /(Signature|Date|Name)\s*:?\s*_{3,}/gi,
+        '\n$1: _______________'
+      );
+    }
+
     // Clean up multiple consecutive newlines but preserve intentional breaks
     cleaned = cleaned.replace(/\n{3,}/g, '\n\n');
 
     // Remove leading/trailing whitespace
     cleaned = cleaned.trim();
 
-    return cleaned;
+    return restoreMarkdownTables(cleaned, tables);
+  }
+
+  /**
+   * The text the user's rules start from: the extracted text with boilerplate
+   * removed, still in its original lines
+   */
+  prepareForRules(rawText: string, settings: PreprocessingSettings, pages?: DocumentPage[]): PreprocessingResult {
+    const boilerplate = settings.options.removeBoilerplate && pages?.length
+      ? removeBoilerplate(rawText, pages)
+      : undefined;
+    return { text: boilerplate?.text ?? rawText, boilerplate: boilerplate?.report };
+  }
+
+  /**
+   * Full preprocessing of a document: boilerplate removal across its pages,
+   * the user's rules in order, the profile's options, then personal data
+   * redaction. Rules run before whitespace is collapsed, so line-anchored
+   * patterns still see the document's lines.
+   */
+  preprocess(rawText: string, settings: PreprocessingSettings, pages?: DocumentPage[]): PreprocessingResult {
+    const { text: prepared, boilerplate } = this.prepareForRules(rawText, settings, pages);
+    const text = this.preprocessText(applyRules(prepared, settings.rules), settings.options);
+    const pii = settings.pii ? redactPii(text, settings.pii) : undefined;
+    return { text: pii?.text ?? text, boilerplate, piiReplacements: pii?.replacements };
   }
 
   /**
@@ -74,28 +193,7 @@ export class TextPreprocessor {
    * Adds additional structure recognition for common grant patterns
    */
   preprocessGrantDocument(rawText: string): string {
-    let cleaned = this.preprocessText(rawText);
-
-    // Enhance grant-specific patterns
-    // Match common grant section headers
-    cleaned = cleaned.replace(
-      /(PROJECT\s+DESCRIPTION|BUDGET\s+JUSTIFICATION|TIMELINE|OBJECTIVES|METHODOLOGY|EVALUATION|IMPACT)/gi,
-      '\n\n$1\n'
-    );
-
-    // Match numbered sections (1., 2., etc.)
-    cleaned = cleaned.replace(
-      /(\n|^)(\d+\.\s*[A-ZÀ-Ÿ][^.\n]*)/g,
-      '\n\n$2'
-    );
-
-    // Match lettered sections (a., b., etc.)
-    cleaned = cleaned.replace(
-      /(\n|^)([a-z]\.\s*[A-ZÀ-Ÿ][^.\n]*)/g,
-      '\n\n$2'
-    );
-
-    return cleaned;
+    return this.preprocessText(rawText, PREPROCESSING_PROFILES.grant.options);
   }
 
   /**
@@ -103,34 +201,13 @@ export class TextPreprocessor {
    * Focuses on field identification and structure
    */
   preprocessFormDocument(rawText: string): string {
-    let cleaned = this.preprocessText(rawText);
-
-    // Enhance form-specific patterns
-    // Match checkbox patterns
-    cleaned = cleaned.replace(
-      /(\☐|\□|\◻|\▢)\s*([A-ZÀ-Ÿ][^☐□◻▢\n]*)/g,
-      '\n$2'
-    );
-
-    // Match filled checkbox patterns
-    cleaned = cleaned.replace(
-      /(\☑|\■|\◼|\▣|✓|✔)\s*([A-ZÀ-Ÿ][^☑■◼▣✓✔\n]*)/g,
-      '\n$2'
-    );
-
-    // Match signature lines
-    cleaned = cleaned.replace(
-      /(Signature|Date|Name)\s*:?\s*_{3,}/gi,
-      '\n$1: _______________'
-    );
-
-    return cleaned;
+    return this.preprocessText(rawText, PREPROCESSING_PROFILES.form.options);
   }
 
   /**
    * Get preprocessing statistics
    */
-  getPreprocessingStats(originalText: string, processedText: string) {
+  getPreprocessingStats(originalText: string, processedText: string, boilerplate?: BoilerplateReport, piiReplacements?: PiiReplacement[]) {
     const originalWords = originalText.split(/\s+/).filter(word => word.length > 0).length;
     const processedWords = processedText.split(/\s+/).filter(word => word.length > 0).length;
     const originalLines = originalText.split('\n').length;
@@ -142,7 +219,9 @@ export class TextPreprocessor {
       originalLineCount: originalLines,
       processedLineCount: processedLines,
       compressionRatio: processedText.length / originalText.length,
-      structureImprovement: processedLines / originalLines
+      structureImprovement: processedLines / originalLines,
+      boilerplate,
+      pii: piiReplacements && summarizePii(piiReplacements)
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { BoilerplateReport, DocumentPage, PiiReplacement, PreprocessingSettings, TokenBudget, TokenBudgetReport, TokenBudgetStep } from '../types';
+import { TextPreprocessor } from './textPreprocessing';
+
+/**
+ * Token budget compression
+ * Shrinks a preprocessed document until it fits a token budget, applying
+ * progressively more aggressive reductions and re-measuring after each one:
+ * boilerplate removal, whitespace and punctuation normalization, dropping
+ * low-value sections, and finally truncation.
+ */
+
+export interface BudgetInput {
+  // Extracted text and pages, for the boilerplate step
+  rawText: string;
+  pages?: DocumentPage[];
+  settings: PreprocessingSettings;
+  // Text after normal preprocessing
+  text: string;
+  budget: TokenBudget;
+  // Token count of a text with the active tokenizer
+  measure: (text: string) => Promise<number>;
+  onProgress?: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface BudgetResult {
+  text: string;
+  report: TokenBudgetReport;
+  // Set when the boilerplate step preprocessed the text again, which redacts it afresh
+  piiReplacements?: PiiReplacement[];
+  // Set when the boilerplate step removed headers and footers
+  boilerplate?: BoilerplateReport;
+}
+
+// Rough characters per token, used when the tokenizer cannot be reached
+const ESTIMATED_CHARS_PER_TOKEN = 4;
+// Truncation aims slightly below the budget, since token counts do not scale exactly with length
+const TRUNCATION_MARGIN = 0.97;
+const MAX_TRUNCATION_ATTEMPTS = 6;
+// Share of the kept text taken from the start in head+tail truncation
+const HEAD_SHARE = 2 / 3;
+const OMISSION_MARKER = '[... content omitted to fit the token budget ...]';
+
+const SECTION_NUMBER = '(?:(?:\\d+(?:\\.\\d+)*|[A-Z]|[IVX]+)[.)]?\\s+)?';
+// Sections dropped up to the next heading
+const LOW_VALUE_HEADING = new RegExp(`^${SECTION_NUMBER}(?:references|bibliography|works cited|literature cited|acknowledge?ments|appendix|appendices|annex(?:es)?|glossary|index)\\b`, 'i');
+// Only the entries that follow are dropped, since the heading is often the last before the body
+const CONTENTS_HEADING = new RegExp(`^${SECTION_NUMBER}(?:table of contents|contents)\\b`, 'i');
+// Table of contents entries end in a page number, usually after dot leaders,
+// which normalization collapses to a single dot
+const TOC_LINE = /(?:\.{3,}|…|\s\.|\s{2,}|\t)\s*\d+\s*$/;
+
+const isContentsBlock = (lines: string[]): boolean =>
+  lines.filter(line => TOC_LINE.test(line)).length >= lines.length * 0.6;
+
+const isHeading = (block: string): boolean =>
+  !block.includes('\n') && block.length <= 80 && /^[\p{Lu}\d]/u.test(block) && !/[.,;]$/.test(block);
+
+const preview = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+};
+
+/**
+ * Collapse whitespace, straighten typographic punctuation and drop
+ * decorative runs, none of which carry meaning for a model
+ */
+export const normalizeForBudget = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => {
+      // Markdown tables rely on their pipes and dashes
+      if (line.includes('|')) return line.trim();
+      return line
+        .replace(/[‘’‚′]/g, "'")
+        .replace(/[“”„″]/g, '"')
+        .replace(/[–—−]/g, '-')
+        .replace(/[•▪●◦‣⁃]/g, '-')
+        .replace(/…/g, '...')
+        // Dot leaders and rules
+        .replace(/([.\-_=*~#])\1{3,}/g, '$1')
+        .replace(/([!?,;:])\1+/g, '$1')
+        .replace(/[^\S\n]+/g, ' ')
+        .trim();
+    })
+    // Lines left with nothing but punctuation were separators
+    .filter(line => line.length === 0 || /[\p{L}\p{N}|]/u.test(line))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Drop tables of contents, reference lists, appendices and the like, plus
+ * paragraphs repeated word for word
+ */
+export const dropLowValueSections = (text: string): { text: string; removed: string[] } => {
+  const blocks = text.split(/\n{2,}/);
+  const kept: string[] = [];
+  const removed: string[] = [];
+  const seen = new Set<string>();
+  let droppingSection: { title: string; blocks: number; contents: boolean } | null = null;
+
+  const closeSection = () => {
+    if (droppingSection) {
+      removed.push(`${droppingSection.title} (${droppingSection.blocks} paragraph${droppingSection.blocks === 1 ? '' : 's'})`);
+      droppingSection = null;
+    }
+  };
+
+  for (const block of blocks) {
+    const trimmed = block.trim();
+    const lines = trimmed.split('\n');
+    if (isHeading(trimmed)) {
+      closeSection();
+      const contents = CONTENTS_HEADING.test(trimmed);
+      if (contents || LOW_VALUE_HEADING.test(trimmed)) {
+        droppingSection = { title: trimmed, blocks: 0, contents };
+        continue;
+      }
+    }
+    if (droppingSection?.contents && !isContentsBlock(lines)) {
+      closeSection();
+    }
+    if (droppingSection) {
+      droppingSection.blocks++;
+      continue;
+    }
+
+    if (lines.length >= 3 && isContentsBlock(lines)) {
+      removed.push(`Table of contents: ${preview(lines[0])}`);
+      continue;
+    }
+
+    const key = trimmed.replace(/\s+/g, ' ').toLowerCase();
+    if (key.length > 40 && seen.has(key)) {
+      removed.push(`Repeated paragraph: ${preview(trimmed)}`);
+      continue;
+    }
+    seen.add(key);
+    kept.push(block);
+  }
+  closeSection();
+
+  return { text: kept.join('\n\n'), removed };
+};
+
+/**
+ * Keep about keepChars characters, cut at word boundaries, with a marker
+ * where text was left out
+ */
+export const truncateText = (text: string, keepChars: number, strategy: Exclude<TokenBudget['truncation'], 'none'>): string => {
+  if (keepChars >= text.length) return text;
+  const limit = Math.max(0, keepChars - OMISSION_MARKER.length);
+
+  const headLength = strategy === 'head' ? limit : Math.floor(limit * HEAD_SHARE);
+  const headCut = text.lastIndexOf(' ', headLength);
+  const head = text.slice(0, headCut > headLength * 0.8 ? headCut : headLength).trimEnd();
+  if (strategy === 'head') {
+    return `${head}\n\n${OMISSION_MARKER}`;
+  }
+
+  const tailStart = text.length - (limit - headLength);
+  const tailCut = text.indexOf(' ', tailStart);
+  const tail = text.slice(tailCut >= 0 && tailCut < tailStart + (limit - headLength) * 0.2 ? tailCut : tailStart).trimStart();
+  return `${head}\n\n${OMISSION_MARKER}\n\n${tail}`;
+};
+
+export const compressToBudget = async ({
+  rawText,
+  pages,
+  settings,
+  text,
+  budget,
+  measure,
+  onProgress,
+  signal
+}: BudgetInput): Promise<BudgetResult> => {
+  let estimated = false;
+  const count = async (candidate: string): Promise<number> => {
+    signal?.throwIfAborted();
+    if (!estimated) {
+      try {
+        return await measure(candidate);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn('Tokenizer unavailable for budget compression, estimating token counts instead:', error);
+        estimated = true;
+      }
+    }
+    return Math.ceil(candidate.length / ESTIMATED_CHARS_PER_TOKEN);
+  };
+
+  let current = text;
+  let piiReplacements: PiiReplacement[] | undefined;
+  let boilerplate: BoilerplateReport | undefined;
+  let tokens = await count(current);
+  const report: TokenBudgetReport = { maxTokens: budget.maxTokens, initialTokens: tokens, finalTokens: tokens, steps: [] };
+
+  const applyStep = async (step: TokenBudgetStep, message: string, reduce: () => { text: string; removed: string[] } | null) => {
+    if (tokens <= budget.maxTokens) return;
+    onProgress?.(message);
+    const reduced = reduce();
+    if (!reduced || reduced.text === current) return;
+    const tokensAfter = await count(reduced.text);
+    report.steps.push({ step, tokensBefore: tokens, tokensAfter, removed: reduced.removed });
+    current = reduced.text;
+    tokens = tokensAfter;
+  };
+
+  await applyStep('boilerplate', 'Removing repeated headers and footers...', () => {
+    if (settings.options.removeBoilerplate || !pages?.length) return null;
+    const result = TextPreprocessor.getInstance().preprocess(
+      rawText,
+      { ...settings, options: { ...settings.options, removeBoilerplate: true } },
+      pages
+    );
+    piiReplacements = result.piiReplacements;
+    boilerplate = result.boilerplate;
+    return { text: result.text, removed: result.boilerplate?.removed.map(item => item.text) ?? [] };
+  });
+
+  await applyStep('normalize', 'Normalizing whitespace and punctuation...', () => ({
+    text: normalizeForBudget(current),
+    removed: []
+  }));
+
+  await applyStep('sections', 'Dropping low-value sections...', () => dropLowValueSections(current));
+
+  if (tokens > budget.maxTokens && budget.truncation !== 'none') {
+    onProgress?.('Truncating to fit the budget...');
+    const tokensBefore = tokens;
+    let candidate = current;
+    let candidateTokens = tokens;
+    for (let attempt = 0; attempt < MAX_TRUNCATION_ATTEMPTS && candidateTokens > budget.maxTokens; attempt++) {
+      const keepChars = Math.floor(candidate.length * (budget.maxTokens / candidateTokens) * TRUNCATION_MARGIN);
+      candidate = truncateText(current, keepChars, budget.truncation);
+      candidateTokens = await count(candidate);
+    }
+    report.steps.push({
+      step: 'truncate',
+      tokensBefore,
+      tokensAfter: candidateTokens,
+      removed: [`${(current.length - candidate.length + OMISSION_MARKER.length).toLocaleString()} characters from the ${budget.truncation === 'head' ? 'end' : 'middle'}`]
+    });
+    current = candidate;
+    tokens = candidateTokens;
+  }
+
+  report.finalTokens = tokens;
+  report.estimated = estimated || undefined;
+  return { text: current, report, piiReplacements, boilerplate };
+};
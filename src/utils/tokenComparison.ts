@@ -0,0 +1,166 @@
+/**
+ * Token alignment and multi-model comparison utilities
+ * Maps tokens back to character offsets in the source text so tokenizations
+ * from different models can be compared boundary by boundary.
+ */
+
+import { TokenizedData } from '../types';
+
+export type TokenOffset = [number, number];
+
+export interface TokenizationComparison {
+  modelName: string;
+  tokenCount: number;
+  bytesPerToken: number;
+  charsPerToken: number;
+  // Share of this model's boundaries that every other model also has
+  boundaryAgreement: number;
+  offsets: TokenOffset[];
+}
+
+export interface BoundarySegment {
+  text: string;
+  start: number;
+  // True when every compared model places a token boundary at `start`
+  sharedBoundary: boolean;
+}
+
+const BYTE_LEVEL_MARKERS = /[ĠĊĉ]/;
+
+const buildByteDecoder = (): Map<string, number> => {
+  const decoder = new Map<string, number>();
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    const printable = (b >= 33 && b <= 126) || (b >= 161 && b <= 172) || (b >= 174 && b <= 255);
+    decoder.set(printable ? String.fromCharCode(b) : String.fromCharCode(256 + extra++), b);
+  }
+  return decoder;
+};
+
+const BYTE_DECODER = buildByteDecoder();
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Detect GPT-2 style byte-level tokens (Ġ for spaces, Ċ for newlines)
+ */
+export const isByteLevelTokenization = (tokens: string[]): boolean =>
+  tokens.slice(0, 200).some(token => BYTE_LEVEL_MARKERS.test(token));
+
+/**
+ * Convert a raw token into the text it covers in the source document
+ */
+export const tokenSurfaceText = (token: string, byteLevel: boolean): string => {
+  if (/^<0x[0-9A-Fa-f]{2}>$/.test(token)) return '';
+  if (byteLevel) {
+    const bytes = Array.from(token, char => BYTE_DECODER.get(char) ?? 63);
+    return utf8Decoder.decode(Uint8Array.from(bytes)).replace(/�/g, '');
+  }
+  return token.replace(/^##/, '').replace(/▁/g, ' ');
+};
+
+/**
+ * Align tokens to character offsets in text. Tokens that cannot be located
+ * (unknown tokens, normalized accents) get a zero-width offset at the cursor.
+ */
+export const alignTokens = (text: string, tokens: string[]): TokenOffset[] => {
+  const byteLevel = isByteLevelTokenization(tokens);
+  const lowerText = text.toLowerCase();
+  const offsets: TokenOffset[] = [];
+  let cursor = 0;
+
+  for (const token of tokens) {
+    const surface = tokenSurfaceText(token, byteLevel);
+    const trimmed = surface.trim();
+
+    if (trimmed.length === 0) {
+      // Whitespace-only token: consume the whitespace it stands for
+      let end = cursor;
+      while (end < text.length && end - cursor < Math.max(surface.length, 1) && /\s/.test(text[end])) end++;
+      offsets.push([cursor, end]);
+      cursor = end;
+      continue;
+    }
+
+    // Look a short distance ahead so a missing token does not derail the rest
+    const window = trimmed.length + 32;
+    let index = text.indexOf(trimmed, cursor);
+    if (index === -1 || index - cursor > window) {
+      index = lowerText.indexOf(trimmed.toLowerCase(), cursor);
+    }
+
+    if (index === -1 || index - cursor > window) {
+      offsets.push([cursor, cursor]);
+      continue;
+    }
+
+    // Include the leading whitespace the token carries (e.g. "Ġworld")
+    const leading = surface.length - surface.trimStart().length;
+    const start = Math.max(cursor, index - leading);
+    const end = index + trimmed.length;
+    offsets.push([start, end]);
+    cursor = end;
+  }
+
+  return offsets;
+};
+
+/**
+ * Boundaries are taken at the first non-whitespace character of each token,
+ * so "Ġworld" and "world" count as splitting at the same place
+ */
+const boundarySet = (text: string, offsets: TokenOffset[]): Set<number> => {
+  const boundaries = new Set<number>();
+  offsets.forEach(([start, end]) => {
+    let boundary = start;
+    while (boundary < end && /\s/.test(text[boundary])) boundary++;
+    if (boundary < end) boundaries.add(boundary);
+  });
+  return boundaries;
+};
+
+/**
+ * Compare several tokenizations of the same text
+ */
+export const compareTokenizations = (text: string, tokenizations: TokenizedData[]): TokenizationComparison[] => {
+  const byteLength = new TextEncoder().encode(text).length;
+  const offsets = tokenizations.map(data => alignTokens(text, data.tokens));
+  const boundaries = offsets.map(tokenOffsets => boundarySet(text, tokenOffsets));
+
+  return tokenizations.map((data, index) => {
+    const own = boundaries[index];
+    const others = boundaries.filter((_, otherIndex) => otherIndex !== index);
+    const shared = [...own].filter(boundary => others.every(set => set.has(boundary))).length;
+
+    return {
+      modelName: data.modelName,
+      tokenCount: data.tokenCount,
+      bytesPerToken: data.tokenCount > 0 ? byteLength / data.tokenCount : 0,
+      charsPerToken: data.tokenCount > 0 ? text.length / data.tokenCount : 0,
+      boundaryAgreement: own.size > 0 ? shared / own.size : 1,
+      offsets: offsets[index]
+    };
+  });
+};
+
+/**
+ * Split the start of a text into segments at every boundary of one model,
+ * flagging boundaries that all other models share
+ */
+export const boundarySegments = (
+  text: string,
+  comparisons: TokenizationComparison[],
+  modelIndex: number,
+  limit = 1500
+): BoundarySegment[] => {
+  const boundarySets = comparisons.map(comparison => boundarySet(text, comparison.offsets));
+  const own = [...boundarySets[modelIndex]].filter(boundary => boundary < limit).sort((a, b) => a - b);
+  const end = Math.min(text.length, limit);
+
+  if (own.length === 0 || own[0] !== 0) own.unshift(0);
+
+  return own.map((start, index) => ({
+    text: text.slice(start, index + 1 < own.length ? own[index + 1] : end),
+    start,
+    sharedBoundary: boundarySets.every(set => set.has(start) || start === 0)
+  })).filter(segment => segment.text.length > 0);
+};
@@ -1,4 +1,17 @@
-import { TokenizedData, TokenizationConfigType } from '../types';
+import { TokenizedData, TokenizationConfigType, TokenizerBackendSettings } from '../types';
+import { TokenizerBackendDefinition, TokenizerBackendRegistry } from './tokenizerBackends';
+import { TokenizationCache } from './tokenizationCache';
+
+export interface TokenizeOptions {
+  // Tokenize with this model instead of the configured one
+  modelName?: string;
+  signal?: AbortSignal;
+}
+
+export interface ModelComparisonResult {
+  results: TokenizedData[];
+  errors: Array<{ modelName: string; error: string }>;
+}
 
 export class TokenizationService {
   private static instance: TokenizationService;
@@ -6,16 +19,7 @@ export class TokenizationService {
 
   private constructor() {
     // Default configuration - can be overridden
-    this.config = {
-      modelName: 'gpt-oss-120b',
-      azureFunctionUrl: import.meta.env.VITE_AZURE_TOKENIZER_URL || 'https://ocp10-tokenizer-function.azurewebsites.net/api/tokenizerfunction',
-      apiKey: import.meta.env.VITE_AZURE_TOKENIZER_KEY
-    };
-    
-    // Ensure we always use the correct Azure Function URL
-    if (!this.config.azureFunctionUrl || this.config.azureFunctionUrl === 'https://your-function-app.azurewebsites.net/api/tokenize') {
-      this.config.azureFunctionUrl = 'https://ocp10-tokenizer-function.azurewebsites.net/api/tokenizerfunction';
-    }
+    this.config = TokenizationService.getDefaultConfig();
   }
 
   static getInstance(): TokenizationService {
@@ -25,141 +29,167 @@ export class TokenizationService {
     return TokenizationService.instance;
   }
 
+  /**
+   * Default configuration: the Azure Function backend with settings from the environment
+   */
+  static getDefaultConfig(): TokenizationConfigType {
+    return {
+      backend: 'azure-function',
+      modelName: 'gpt-oss-120b',
+      comparisonModels: [],
+      backendSettings: TokenizerBackendRegistry.getInstance().getDefaultSettings()
+    };
+  }
+
   /**
    * Update tokenization configuration
    */
   updateConfig(config: Partial<TokenizationConfigType>): void {
-    this.config = { ...this.config, ...config };
+    this.config = {
+      ...this.config,
+      ...config,
+      backendSettings: { ...this.config.backendSettings, ...config.backendSettings }
+    };
   }
 
   /**
    * Get current configuration
    */
   getConfig(): TokenizationConfigType {
-    return { ...this.config };
+    return {
+      ...this.config,
+      backendSettings: Object.fromEntries(
+        Object.entries(this.config.backendSettings).map(([id, settings]) => [id, { ...settings }])
+      )
+    };
+  }
+
+  /**
+   * Get the definition of the active backend
+   */
+  getBackend(): TokenizerBackendDefinition {
+    return TokenizerBackendRegistry.getInstance().get(this.config.backend);
+  }
+
+  private getBackendSettings(): TokenizerBackendSettings {
+    return this.config.backendSettings[this.config.backend] || {};
   }
 
   /**
-   * Tokenize text using Azure Function
+   * Tokenize text with the configured backend, reusing a cached result for
+   * text this model and backend have tokenized before
    */
   async tokenizeText(
     text: string,
-    onProgress?: (progress: number, message: string) => void
+    onProgress?: (progress: number, message: string) => void,
+    options: TokenizeOptions = {}
   ): Promise<TokenizedData> {
-    if (!this.config.azureFunctionUrl || this.config.azureFunctionUrl.trim() === '') {
-      throw new Error('Azure Function URL not configured. Please configure the tokenizer in the header "Tokenizer Config" section.');
-    }
-
-    onProgress?.(10, 'Connecting to tokenization service...');
+    const backend = this.getBackend();
+    const modelName = options.modelName || this.config.modelName;
+    const settings = this.getBackendSettings();
+    const cache = TokenizationCache.getInstance();
 
+    // The cache only saves work; a cache that cannot be read falls back to the backend
+    let cacheKey: string | undefined;
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      };
-
-      // Add API key if configured
-      if (this.config.apiKey) {
-        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+      cacheKey = await cache.createKey({ text, modelName, backend, settings });
+      const cached = await cache.get(cacheKey);
+      if (cached) {
+        onProgress?.(100, `Loaded ${cached.tokenCount} tokens from cache.`);
+        return cached;
       }
+    } catch (cacheError) {
+      console.warn('Tokenization cache unavailable:', cacheError);
+    }
 
-      onProgress?.(30, 'Sending text for tokenization...');
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
-      const response = await fetch(this.config.azureFunctionUrl, {
-        method: 'POST',
-        headers,
-        mode: 'cors',
-        signal: controller.signal,
-        body: JSON.stringify({
-          text,
-          model_name: this.config.modelName,
-          return_tokens: true,
-          return_token_ids: true
-        })
-      });
-
-      clearTimeout(timeoutId);
-
-      onProgress?.(70, 'Processing tokenization response...');
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Tokenization failed: ${response.status} ${response.statusText}. ${errorText}`);
-      }
+    onProgress?.(10, `Connecting to ${backend.label} tokenizer...`);
 
-      const result = await response.json();
+    try {
+      options.signal?.throwIfAborted();
+      const result = await backend.tokenize({
+        text,
+        modelName,
+        settings,
+        onProgress,
+        signal: options.signal
+      });
+      // The in-browser backend cannot be interrupted, so drop its result instead
+      options.signal?.throwIfAborted();
 
       onProgress?.(90, 'Finalizing tokenization...');
 
-      // Validate response structure
-      if (!result.tokens || !Array.isArray(result.tokens)) {
-        throw new Error('Invalid response format: missing tokens array');
-      }
-
       const tokenizedData: TokenizedData = {
         tokens: result.tokens,
-        tokenIds: result.token_ids || [],
+        tokenIds: result.tokenIds,
         tokenCount: result.tokens.length,
-        modelName: result.model || this.config.modelName,
+        modelName: result.modelName || modelName,
         tokenizedAt: new Date()
       };
 
+      if (cacheKey) {
+        cache.set(cacheKey, tokenizedData).catch(cacheError => {
+          console.warn('Failed to cache tokenization result:', cacheError);
+        });
+      }
+
       onProgress?.(100, `Tokenization completed. ${tokenizedData.tokenCount} tokens generated.`);
 
       return tokenizedData;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
       console.error('Tokenization error:', error);
-      
+
       if (error instanceof Error) {
-        // Provide more helpful error messages for common issues
-        if (error.name === 'AbortError') {
-          throw new Error('Request timed out. The Azure Function may be slow to respond or unavailable.');
-        } else if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-          throw new Error('Cannot connect to Azure Function. Please check:\n1. Azure Function URL is correct\n2. Function is running and publicly accessible\n3. No CORS restrictions\n4. Your internet connection');
-        } else if (error.message.includes('CORS')) {
-          throw new Error('CORS error: The Azure Function needs to allow requests from this domain.');
-        }
         throw error;
       }
-      
+
       throw new Error('Unknown tokenization error occurred');
     }
   }
 
   /**
-   * Test connection to Azure Function
+   * Tokenize the same text with several models, one after another.
+   * Failures are collected per model so one bad model does not hide the others.
    */
-  async testConnection(): Promise<boolean> {
-    if (!this.config.azureFunctionUrl) {
-      return false;
+  async tokenizeWithModels(
+    text: string,
+    modelNames: string[],
+    onProgress?: (progress: number, message: string) => void
+  ): Promise<ModelComparisonResult> {
+    const comparison: ModelComparisonResult = { results: [], errors: [] };
+    const uniqueModels = [...new Set(modelNames.map(name => name.trim()).filter(name => name.length > 0))];
+
+    for (const [index, modelName] of uniqueModels.entries()) {
+      onProgress?.(Math.round((index / uniqueModels.length) * 100), `Tokenizing with ${modelName}...`);
+      try {
+        comparison.results.push(await this.tokenizeText(text, undefined, { modelName }));
+      } catch (error) {
+        comparison.errors.push({
+          modelName,
+          error: error instanceof Error ? error.message : 'Unknown tokenization error occurred'
+        });
+      }
     }
 
-    try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
+    onProgress?.(100, `Compared ${comparison.results.length} of ${uniqueModels.length} models.`);
 
-      if (this.config.apiKey) {
-        headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-      }
+    return comparison;
+  }
 
-      const response = await fetch(this.config.azureFunctionUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          text: 'test',
-          model_name: this.config.modelName,
-          test_connection: true
-        })
+  /**
+   * Test connection to the configured backend
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      return await this.getBackend().testConnection({
+        modelName: this.config.modelName,
+        settings: this.getBackendSettings()
       });
-
-      return response.ok;
     } catch (error) {
       console.error('Connection test failed:', error);
       return false;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,214 @@
+import { TokenizedData, TokenizerBackendSettings } from '../types';
+import { hashText } from './fileHash';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { TokenizerBackendDefinition } from './tokenizerBackends';
+
+/**
+ * Tokenization cache
+ * Remembers backend results by (text hash, model, backend) so reprocessing the
+ * same text does not call the tokenizer again. A small in-memory layer sits in
+ * front of a larger IndexedDB layer that survives page reloads.
+ */
+
+const DATABASE_NAME = 'grant-tokenization-cache';
+const DATABASE_VERSION = 1;
+// Small records used to find entries to evict without reading their tokens
+const ENTRIES_STORE = 'entries';
+const TOKENS_STORE = 'tokens';
+const LAST_USED_INDEX = 'lastUsed';
+
+const MEMORY_MAX_ENTRIES = 50;
+const MEMORY_MAX_TOKENS = 2_000_000;
+const PERSISTENT_MAX_ENTRIES = 500;
+const PERSISTENT_MAX_TOKENS = 20_000_000;
+
+interface CacheEntry {
+  key: string;
+  tokenCount: number;
+  lastUsed: number;
+}
+
+interface CachedTokens {
+  key: string;
+  tokens: string[];
+  tokenIds: number[];
+  modelName: string;
+}
+
+export interface CacheKeyParts {
+  text: string;
+  modelName: string;
+  backend: TokenizerBackendDefinition;
+  settings: TokenizerBackendSettings;
+}
+
+export interface TokenizationCacheStats {
+  entries: number;
+  tokens: number;
+}
+
+export class TokenizationCache {
+  private static instance: TokenizationCache;
+  // Map order doubles as recency: hits are moved to the end, eviction takes from the front
+  private memory = new Map<string, CachedTokens>();
+  private memoryTokens = 0;
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  static getInstance(): TokenizationCache {
+    if (!TokenizationCache.instance) {
+      TokenizationCache.instance = new TokenizationCache();
+    }
+    return TokenizationCache.instance;
+  }
+
+  /**
+   * Build the cache key. Backend settings other than secrets are part of the
+   * key, since a different endpoint or vocabulary can tokenize differently,
+   * as is the backend's fingerprint of the model's vocabulary.
+   */
+  async createKey({ text, modelName, backend, settings }: CacheKeyParts): Promise<string> {
+    const secretKeys = new Set(backend.fields.filter(field => field.type === 'password').map(field => field.key));
+    const publicSettings = Object.entries(settings)
+      .filter(([key]) => !secretKeys.has(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const settingsHash = await hashText(JSON.stringify(publicSettings));
+    const fingerprint = backend.fingerprint?.(modelName)?.slice(0, 16) ?? '';
+    return [backend.id, settingsHash.slice(0, 16), modelName, fingerprint, await hashText(text)].join(':');
+  }
+
+  async get(key: string): Promise<TokenizedData | undefined> {
+    let cached = this.memory.get(key);
+    if (cached) {
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+    } else {
+      cached = await this.getPersistent(key);
+      if (cached) this.remember(cached);
+    }
+
+    return cached && {
+      tokens: cached.tokens,
+      tokenIds: cached.tokenIds,
+      tokenCount: cached.tokens.length,
+      modelName: cached.modelName,
+      tokenizedAt: new Date(),
+      fromCache: true
+    };
+  }
+
+  async set(key: string, data: TokenizedData): Promise<void> {
+    const cached: CachedTokens = { key, tokens: data.tokens, tokenIds: data.tokenIds, modelName: data.modelName };
+    this.remember(cached);
+    await this.setPersistent(cached);
+  }
+
+  /**
+   * Drop every cached result from both layers
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.memoryTokens = 0;
+    if (!TokenizationCache.isPersistent()) return;
+
+    const database = await this.open();
+    const transaction = database.transaction([ENTRIES_STORE, TOKENS_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).clear();
+    transaction.objectStore(TOKENS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Size of the persistent layer, or of the memory layer when there is none
+   */
+  async getStats(): Promise<TokenizationCacheStats> {
+    if (!TokenizationCache.isPersistent()) {
+      return { entries: this.memory.size, tokens: this.memoryTokens };
+    }
+    const database = await this.open();
+    const store = database.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE);
+    const entries = await requestToPromise(store.getAll()) as CacheEntry[];
+    return { entries: entries.length, tokens: entries.reduce((sum, entry) => sum + entry.tokenCount, 0) };
+  }
+
+  private static isPersistent(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private remember(cached: CachedTokens): void {
+    const previous = this.memory.get(cached.key);
+    if (previous) {
+      this.memory.delete(cached.key);
+      this.memoryTokens -= previous.tokens.length;
+    }
+    // A single oversized result would push out everything else
+    if (cached.tokens.length > MEMORY_MAX_TOKENS) return;
+
+    this.memory.set(cached.key, cached);
+    this.memoryTokens += cached.tokens.length;
+
+    for (const [key, oldest] of this.memory) {
+      if (this.memory.size <= MEMORY_MAX_ENTRIES && this.memoryTokens <= MEMORY_MAX_TOKENS) break;
+      this.memory.delete(key);
+      this.memoryTokens -= oldest.tokens.length;
+    }
+  }
+
+  private async getPersistent(key: string): Promise<CachedTokens | undefined> {
+    if (!TokenizationCache.isPersistent()) return undefined;
+
+    const database = await this.open();
+    const transaction = database.transaction([ENTRIES_STORE, TOKENS_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const entry = await requestToPromise(entries.get(key)) as CacheEntry | undefined;
+    if (!entry) return undefined;
+
+    const cached = await requestToPromise(transaction.objectStore(TOKENS_STORE).get(key)) as CachedTokens | undefined;
+    if (cached) {
+      entries.put({ ...entry, lastUsed: Date.now() } as CacheEntry);
+    }
+    await transactionDone(transaction);
+    return cached;
+  }
+
+  private async setPersistent(cached: CachedTokens): Promise<void> {
+    if (!TokenizationCache.isPersistent()) return;
+
+    const database = await this.open();
+    const transaction = database.transaction([ENTRIES_STORE, TOKENS_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    const tokens = transaction.objectStore(TOKENS_STORE);
+    entries.put({ key: cached.key, tokenCount: cached.tokens.length, lastUsed: Date.now() } as CacheEntry);
+    tokens.put(cached);
+
+    // Evict least recently used entries until both limits hold again
+    const all = await requestToPromise(entries.index(LAST_USED_INDEX).getAll()) as CacheEntry[];
+    let count = all.length;
+    let total = all.reduce((sum, entry) => sum + entry.tokenCount, 0);
+    for (const entry of all) {
+      if (count <= PERSISTENT_MAX_ENTRIES && total <= PERSISTENT_MAX_TOKENS) break;
+      entries.delete(entry.key);
+      tokens.delete(entry.key);
+      count--;
+      total -= entry.tokenCount;
+    }
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = openDatabase(DATABASE_NAME, DATABASE_VERSION, database => {
+        if (!database.objectStoreNames.contains(ENTRIES_STORE)) {
+          database.createObjectStore(ENTRIES_STORE, { keyPath: 'key' }).createIndex(LAST_USED_INDEX, 'lastUsed');
+        }
+        if (!database.objectStoreNames.contains(TOKENS_STORE)) {
+          database.createObjectStore(TOKENS_STORE, { keyPath: 'key' });
+        }
+      });
+      // Allow another attempt after a failed open (private browsing, blocked storage)
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+    return this.databasePromise;
+  }
+}
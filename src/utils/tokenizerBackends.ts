@@ -0,0 +1,477 @@
+import { TokenizerBackendSettings } from '../types';
+import { LocalTokenizerClient } from './localTokenizerClient';
+
+/**
+ * Tokenizer backends
+ * Each backend declares the settings it needs so the configuration panel can
+ * render them, and knows how to turn text into tokens.
+ */
+
+export interface BackendField {
+  key: string;
+  label: string;
+  type: 'text' | 'url' | 'password' | 'textarea' | 'select';
+  placeholder?: string;
+  description?: string;
+  required?: boolean;
+  defaultValue?: string;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export interface BackendRequest {
+  modelName: string;
+  settings: TokenizerBackendSettings;
+}
+
+export interface TokenizeRequest extends BackendRequest {
+  text: string;
+  onProgress?: (progress: number, message: string) => void;
+  // Aborts the request when the user cancels the document
+  signal?: AbortSignal;
+}
+
+export interface BackendTokenization {
+  tokens: string[];
+  tokenIds: number[];
+  modelName?: string;
+}
+
+export interface TokenizerBackendDefinition {
+  id: string;
+  label: string;
+  description: string;
+  // Where the model comes from: a free-text model name or a tokenizer loaded in the browser
+  modelSource: 'text' | 'local-tokenizers';
+  modelPlaceholder?: string;
+  fields: BackendField[];
+  tokenize(request: TokenizeRequest): Promise<BackendTokenization>;
+  testConnection(request: BackendRequest): Promise<boolean>;
+  // Identifies the vocabulary behind a model name, when the name alone does not
+  fingerprint?(modelName: string): string | undefined;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Read a value from a JSON response using a dot-separated path ("data.tokens")
+ */
+const getByPath = (value: unknown, path: string): unknown => {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+};
+
+const parseJsonSetting = (value: string | undefined, label: string): Record<string, unknown> => {
+  if (!value || value.trim() === '') return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed;
+  } catch {
+    throw new Error(`${label} must be a JSON object`);
+  }
+};
+
+const buildHeaders = (apiKey?: string, extraHeaders: Record<string, unknown> = {}): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  Object.entries(extraHeaders).forEach(([key, value]) => {
+    headers[key] = String(value);
+  });
+
+  return headers;
+};
+
+/**
+ * POST a JSON body and parse the JSON response, with a timeout and readable errors
+ */
+const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  serviceName: string,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      mode: 'cors',
+      signal: controller.signal,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Tokenization failed: ${response.status} ${response.statusText}. ${errorText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    // A cancelled request is not a timeout or a connection problem
+    if (signal?.aborted) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      // Provide more helpful error messages for common issues
+      if (error.name === 'AbortError') {
+        throw new Error(`Request timed out. The ${serviceName} may be slow to respond or unavailable.`);
+      } else if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+        throw new Error(`Cannot connect to ${serviceName}. Please check:\n1. The URL is correct\n2. The service is running and publicly accessible\n3. No CORS restrictions\n4. Your internet connection`);
+      } else if (error.message.includes('CORS')) {
+        throw new Error(`CORS error: The ${serviceName} needs to allow requests from this domain.`);
+      }
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+const requireSetting = (settings: TokenizerBackendSettings, key: string, message: string): string => {
+  const value = settings[key];
+  if (!value || value.trim() === '') {
+    throw new Error(message);
+  }
+  return value.trim();
+};
+
+const DEFAULT_AZURE_URL = 'https://ocp10-tokenizer-function.azurewebsites.net/api/tokenizerfunction';
+
+const azureFunctionBackend: TokenizerBackendDefinition = {
+  id: 'azure-function',
+  label: 'Azure Function',
+  description: "Your Azure Function is public and doesn't require authentication",
+  modelSource: 'text',
+  modelPlaceholder: 'e.g., gpt-oss-120b',
+  fields: [
+    {
+      key: 'url',
+      label: 'Azure Function URL',
+      type: 'url',
+      placeholder: 'https://your-function-app.azurewebsites.net/api/tokenize',
+      description: 'Your Azure Function endpoint URL',
+      required: true,
+      defaultValue: import.meta.env.VITE_AZURE_TOKENIZER_URL || DEFAULT_AZURE_URL
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key (Optional)',
+      type: 'password',
+      placeholder: 'Enter API key if required',
+      description: 'Authentication key for your Azure Function',
+      defaultValue: import.meta.env.VITE_AZURE_TOKENIZER_KEY || ''
+    }
+  ],
+
+  async tokenize({ text, modelName, settings, onProgress, signal }) {
+    const url = requireSetting(settings, 'url', 'Azure Function URL not configured. Please configure the tokenizer in the header "Tokenizer Config" section.');
+
+    onProgress?.(30, 'Sending text for tokenization...');
+
+    const result = await postJson(url, {
+      text,
+      model_name: modelName,
+      return_tokens: true,
+      return_token_ids: true
+    }, buildHeaders(settings.apiKey), 'Azure Function', signal) as Record<string, unknown>;
+
+    // Validate response structure
+    if (!result.tokens || !Array.isArray(result.tokens)) {
+      throw new Error('Invalid response format: missing tokens array');
+    }
+
+    return {
+      tokens: result.tokens as string[],
+      tokenIds: (result.token_ids as number[]) || [],
+      modelName: result.model as string | undefined
+    };
+  },
+
+  async testConnection({ modelName, settings }) {
+    if (!settings.url) return false;
+
+    const response = await fetch(settings.url, {
+      method: 'POST',
+      headers: buildHeaders(settings.apiKey),
+      body: JSON.stringify({
+        text: 'test',
+        model_name: modelName,
+        test_connection: true
+      })
+    });
+
+    return response.ok;
+  }
+};
+
+const genericHttpBackend: TokenizerBackendDefinition = {
+  id: 'generic-http',
+  label: 'Generic HTTP Endpoint',
+  description: 'Any JSON endpoint, with configurable request and response fields',
+  modelSource: 'text',
+  modelPlaceholder: 'Model name sent to the endpoint',
+  fields: [
+    {
+      key: 'url',
+      label: 'Endpoint URL',
+      type: 'url',
+      placeholder: 'https://example.com/tokenize',
+      required: true
+    },
+    {
+      key: 'apiKey',
+      label: 'Bearer Token (Optional)',
+      type: 'password',
+      placeholder: 'Sent as Authorization: Bearer <token>'
+    },
+    {
+      key: 'textField',
+      label: 'Request Text Field',
+      type: 'text',
+      defaultValue: 'text',
+      description: 'Request body field that receives the text'
+    },
+    {
+      key: 'modelField',
+      label: 'Request Model Field',
+      type: 'text',
+      defaultValue: 'model',
+      description: 'Request body field that receives the model name (leave empty to omit)'
+    },
+    {
+      key: 'extraBody',
+      label: 'Extra Request Fields (JSON)',
+      type: 'textarea',
+      placeholder: '{"add_special_tokens": false}'
+    },
+    {
+      key: 'headers',
+      label: 'Extra Headers (JSON)',
+      type: 'textarea',
+      placeholder: '{"x-api-key": "..."}'
+    },
+    {
+      key: 'tokensPath',
+      label: 'Response Tokens Path',
+      type: 'text',
+      defaultValue: 'tokens',
+      description: 'Dot path to the token strings, e.g. data.tokens'
+    },
+    {
+      key: 'tokenIdsPath',
+      label: 'Response Token IDs Path',
+      type: 'text',
+      defaultValue: 'token_ids',
+      description: 'Dot path to the token IDs (leave empty if not returned)'
+    }
+  ],
+
+  async tokenize({ text, modelName, settings, onProgress, signal }) {
+    const url = requireSetting(settings, 'url', 'Endpoint URL not configured. Please configure the tokenizer in the header "Tokenizer Config" section.');
+
+    const body: Record<string, unknown> = {
+      ...parseJsonSetting(settings.extraBody, 'Extra request fields'),
+      [settings.textField || 'text']: text
+    };
+    if (settings.modelField) {
+      body[settings.modelField] = modelName;
+    }
+
+    onProgress?.(30, 'Sending text for tokenization...');
+
+    const result = await postJson(
+      url,
+      body,
+      buildHeaders(settings.apiKey, parseJsonSetting(settings.headers, 'Extra headers')),
+      'tokenization endpoint',
+      signal
+    );
+
+    const tokenIds = settings.tokenIdsPath ? getByPath(result, settings.tokenIdsPath) : undefined;
+    const tokens = getByPath(result, settings.tokensPath || 'tokens');
+
+    if (tokenIds !== undefined && !Array.isArray(tokenIds)) {
+      throw new Error(`Invalid response format: "${settings.tokenIdsPath}" is not an array`);
+    }
+    if (!Array.isArray(tokens)) {
+      // Some endpoints only return IDs; show them as tokens rather than failing
+      if (Array.isArray(tokenIds)) {
+        return { tokens: tokenIds.map(String), tokenIds: tokenIds.map(Number) };
+      }
+      throw new Error(`Invalid response format: missing tokens array at "${settings.tokensPath || 'tokens'}"`);
+    }
+
+    return {
+      tokens: tokens.map(String),
+      tokenIds: Array.isArray(tokenIds) ? tokenIds.map(Number) : []
+    };
+  },
+
+  async testConnection(request) {
+    await this.tokenize({ ...request, text: 'test' });
+    return true;
+  }
+};
+
+const openAiCompatibleBackend: TokenizerBackendDefinition = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible Server',
+  description: 'vLLM, SGLang or another server exposing POST /tokenize',
+  modelSource: 'text',
+  modelPlaceholder: 'e.g., meta-llama/Llama-3.1-8B-Instruct',
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'Server URL',
+      type: 'url',
+      placeholder: 'http://localhost:8000',
+      description: 'Base URL of the server, without /v1',
+      required: true
+    },
+    {
+      key: 'apiKey',
+      label: 'API Key (Optional)',
+      type: 'password',
+      placeholder: 'Sent as Authorization: Bearer <key>'
+    },
+    {
+      key: 'addSpecialTokens',
+      label: 'Special Tokens',
+      type: 'select',
+      defaultValue: 'false',
+      options: [
+        { value: 'false', label: 'Text tokens only' },
+        { value: 'true', label: 'Include BOS/EOS special tokens' }
+      ]
+    }
+  ],
+
+  async tokenize({ text, modelName, settings, onProgress, signal }) {
+    const baseUrl = requireSetting(settings, 'baseUrl', 'Server URL not configured. Please configure the tokenizer in the header "Tokenizer Config" section.')
+      .replace(/\/+$/, '');
+
+    onProgress?.(30, 'Sending text for tokenization...');
+
+    const result = await postJson(`${baseUrl}/tokenize`, {
+      model: modelName,
+      prompt: text,
+      add_special_tokens: settings.addSpecialTokens === 'true',
+      return_token_strs: true
+    }, buildHeaders(settings.apiKey), 'tokenization server', signal) as Record<string, unknown>;
+
+    if (!Array.isArray(result.tokens)) {
+      throw new Error('Invalid response format: missing tokens array');
+    }
+
+    const tokenIds = (result.tokens as unknown[]).map(Number);
+    const tokenStrings = Array.isArray(result.token_strs)
+      ? (result.token_strs as unknown[]).map(String)
+      : tokenIds.map(String);
+
+    return { tokens: tokenStrings, tokenIds };
+  },
+
+  async testConnection({ settings }) {
+    if (!settings.baseUrl) return false;
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/v1/models`, {
+      headers: buildHeaders(settings.apiKey)
+    });
+
+    return response.ok;
+  }
+};
+
+const localBackend: TokenizerBackendDefinition = {
+  id: 'local',
+  label: 'In-browser',
+  description: 'Text is tokenized in your browser and never leaves this device',
+  modelSource: 'local-tokenizers',
+  fields: [],
+
+  async tokenize({ text, modelName, onProgress, signal }) {
+    if (!modelName) {
+      throw new Error('No local tokenizer selected. Please load a tokenizer file in the header "Tokenizer Config" section.');
+    }
+
+    onProgress?.(30, `Tokenizing in browser with ${modelName}...`);
+
+    return LocalTokenizerClient.getInstance().tokenize(modelName, text, signal);
+  },
+
+  async testConnection({ modelName }) {
+    return Boolean(modelName) && LocalTokenizerClient.getInstance().isLoaded(modelName);
+  },
+
+  // Tokenizer files are named after their format, not their vocabulary: most are tokenizer.json
+  fingerprint(modelName) {
+    return LocalTokenizerClient.getInstance().getInfo(modelName)?.contentHash;
+  }
+};
+
+export class TokenizerBackendRegistry {
+  private static instance: TokenizerBackendRegistry;
+  private backends = new Map<string, TokenizerBackendDefinition>();
+
+  private constructor() {
+    [azureFunctionBackend, genericHttpBackend, openAiCompatibleBackend, localBackend]
+      .forEach(backend => this.register(backend));
+  }
+
+  static getInstance(): TokenizerBackendRegistry {
+    if (!TokenizerBackendRegistry.instance) {
+      TokenizerBackendRegistry.instance = new TokenizerBackendRegistry();
+    }
+    return TokenizerBackendRegistry.instance;
+  }
+
+  /**
+   * Register a backend, replacing any backend with the same id
+   */
+  register(backend: TokenizerBackendDefinition): void {
+    this.backends.set(backend.id, backend);
+  }
+
+  get(id: string): TokenizerBackendDefinition {
+    const backend = this.backends.get(id);
+    if (!backend) {
+      throw new Error(`Unknown tokenizer backend: ${id}`);
+    }
+    return backend;
+  }
+
+  list(): TokenizerBackendDefinition[] {
+    return [...this.backends.values()];
+  }
+
+  /**
+   * Default settings for every registered backend, taken from the field definitions
+   */
+  getDefaultSettings(): Record<string, TokenizerBackendSettings> {
+    const settings: Record<string, TokenizerBackendSettings> = {};
+    this.backends.forEach(backend => {
+      settings[backend.id] = Object.fromEntries(
+        backend.fields.map(field => [field.key, field.defaultValue ?? ''])
+      );
+    });
+    return settings;
+  }
+}
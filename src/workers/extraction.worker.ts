@@ -0,0 +1,25 @@
+import { runExtractionTask } from '../utils/extractionPipeline';
+import type { ExtractionWorkerRequest, ExtractionWorkerResponse } from '../utils/extractionWorkerPool';
+
+// One document at a time per worker; the pool runs several workers side by side
+const respond = (response: ExtractionWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = async (event: MessageEvent<ExtractionWorkerRequest>) => {
+  const { id, name, type, lastModified, buffer, task } = event.data;
+
+  try {
+    const file = new File([buffer], name, { type, lastModified });
+    const result = await runExtractionTask(file, task, (progress, message) => {
+      respond({ id, type: 'progress', progress, message });
+    });
+    respond({ id, type: 'result', result });
+  } catch (error) {
+    respond({
+      id,
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown extraction error'
+    });
+  }
+};
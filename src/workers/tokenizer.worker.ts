@@ -0,0 +1,43 @@
+import { createLocalTokenizer, LocalTokenizer } from '../utils/localTokenizer';
+import type { TokenizerWorkerRequest, TokenizerWorkerResponse } from '../utils/localTokenizerClient';
+
+// Loaded tokenizers live in the worker so large vocabularies never block the UI thread.
+// They are keyed by the id the client builds from the file's content hash.
+const tokenizers = new Map<string, LocalTokenizer>();
+
+const respond = (response: TokenizerWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<TokenizerWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'load': {
+        const tokenizer = createLocalTokenizer(request.name, request.content);
+        tokenizers.set(request.tokenizerId, tokenizer);
+        respond({ id: request.id, ok: true, info: tokenizer.info });
+        break;
+      }
+      case 'tokenize': {
+        const tokenizer = tokenizers.get(request.tokenizerId);
+        if (!tokenizer) {
+          throw new Error(`Local tokenizer "${request.tokenizerId}" is not loaded`);
+        }
+        respond({ id: request.id, ok: true, encoding: tokenizer.encode(request.text) });
+        break;
+      }
+      case 'unload':
+        tokenizers.delete(request.tokenizerId);
+        respond({ id: request.id, ok: true });
+        break;
+    }
+  } catch (error) {
+    respond({
+      id: request.id,
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown tokenizer worker error'
+    });
+  }
+};
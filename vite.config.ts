@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  worker: {
+    // The extraction worker loads format readers on demand, which needs ES module workers
+    format: 'es',
+  },
 });